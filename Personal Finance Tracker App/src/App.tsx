@@ -5,10 +5,14 @@ import { Login } from './components/Login';
 import { Dashboard } from './components/Dashboard';
 import { Transactions } from './components/Transactions';
 import { Budget } from './components/Budget';
+import { Recurring } from './components/Recurring';
+import { Bills } from './components/Bills';
+import { Reports } from './components/Reports';
 import { Settings } from './components/Settings';
+import { NotificationBell } from './components/NotificationBell';
 import { Button } from './components/ui/button';
 import { Toaster } from './components/ui/sonner';
-import { LogOut, DollarSign, TrendingUp, CreditCard, Settings as SettingsIcon } from 'lucide-react';
+import { LogOut, DollarSign, TrendingUp, CreditCard, Repeat, CalendarDays, FileText, Settings as SettingsIcon } from 'lucide-react';
 
 const supabase = createClient(`https://${projectId}.supabase.co`, publicAnonKey);
 
@@ -55,6 +59,9 @@ export default function App() {
     { id: 'dashboard', label: 'Dashboard', icon: TrendingUp },
     { id: 'transactions', label: 'Transactions', icon: CreditCard },
     { id: 'budget', label: 'Budget', icon: DollarSign },
+    { id: 'recurring', label: 'Recurring', icon: Repeat },
+    { id: 'bills', label: 'Bills', icon: CalendarDays },
+    { id: 'reports', label: 'Reports', icon: FileText },
     { id: 'settings', label: 'Settings', icon: SettingsIcon },
   ];
 
@@ -69,6 +76,7 @@ export default function App() {
               <span className="text-xl font-bold text-gray-900">FinanceTracker</span>
             </div>
             <div className="flex items-center space-x-4">
+              <NotificationBell session={session} />
               <span className="text-sm text-gray-700">
                 Welcome, {session.user.user_metadata?.name || session.user.email}
               </span>
@@ -114,6 +122,9 @@ export default function App() {
             {activeTab === 'dashboard' && <Dashboard session={session} />}
             {activeTab === 'transactions' && <Transactions session={session} />}
             {activeTab === 'budget' && <Budget session={session} />}
+            {activeTab === 'recurring' && <Recurring session={session} />}
+            {activeTab === 'bills' && <Bills session={session} />}
+            {activeTab === 'reports' && <Reports session={session} />}
             {activeTab === 'settings' && <Settings session={session} />}
           </div>
         </div>
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useAccounts, Account, AccountType, ACCOUNT_TYPE_LABELS } from '../hooks/useAccounts';
+import { useFormatter } from '../hooks/useFormatter';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Edit, Trash2, Landmark } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface AccountManagerProps {
+  session: any;
+}
+
+const emptyForm = {
+  name: '',
+  type: 'checking' as AccountType,
+  openingBalance: ''
+};
+
+export function AccountManager({ session }: AccountManagerProps) {
+  const { accounts, loading, refresh } = useAccounts(session);
+  const { formatMoney, formatDate } = useFormatter(session);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const openCreate = () => {
+    setEditingAccount(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (account: Account) => {
+    setEditingAccount(account);
+    setFormData({
+      name: account.name,
+      type: account.type,
+      openingBalance: account.openingBalance.toString()
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Please enter an account name');
+      return;
+    }
+
+    try {
+      const url = editingAccount
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/accounts/${editingAccount.id}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/accounts`;
+
+      const response = await fetch(url, {
+        method: editingAccount ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          ...formData,
+          openingBalance: parseFloat(formData.openingBalance) || 0
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save account');
+      }
+
+      toast.success(editingAccount ? 'Account updated!' : 'Account created!');
+      setIsDialogOpen(false);
+      refresh();
+    } catch (error: any) {
+      console.error('Error saving account:', error);
+      toast.error(error.message || 'Failed to save account');
+    }
+  };
+
+  const handleDelete = async (account: Account) => {
+    if (!confirm(`Are you sure you want to delete the "${account.name}" account?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/accounts/${account.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete account');
+      }
+
+      toast.success('Account deleted!');
+      refresh();
+    } catch (error: any) {
+      console.error('Error deleting account:', error);
+      toast.error(error.message || 'Failed to delete account');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Landmark className="h-5 w-5 mr-2" />
+            Accounts
+          </CardTitle>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Account
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+        ) : accounts.length > 0 ? (
+          <div className="space-y-2">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{account.name}</span>
+                    <Badge variant="secondary">{ACCOUNT_TYPE_LABELS[account.type]}</Badge>
+                  </div>
+                  {account.statementBalance && (
+                    <p className="text-xs text-gray-500">
+                      Statement balance {formatMoney(account.statementBalance.amount, account.statementBalance.currency)}
+                      {account.statementBalance.date && ` as of ${formatDate(account.statementBalance.date)}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`font-semibold ${account.balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatMoney(account.balance)}
+                  </span>
+                  <div className="flex space-x-1">
+                    <Button size="sm" variant="outline" onClick={() => openEdit(account)} aria-label="Edit account">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(account)} aria-label="Delete account">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            No accounts yet. Add your checking, savings, credit card, cash or loan accounts to track balances.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? 'Edit Account' : 'Add Account'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Everyday Checking"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value: AccountType) => setFormData(prev => ({ ...prev, type: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="account-opening-balance">Opening Balance</Label>
+                <Input
+                  id="account-opening-balance"
+                  type="number"
+                  step="0.01"
+                  value={formData.openingBalance}
+                  onChange={(e) => setFormData(prev => ({ ...prev, openingBalance: e.target.value }))}
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+
+            {(formData.type === 'credit_card' || formData.type === 'loan') && (
+              <p className="text-xs text-gray-500">
+                Enter the amount owed as a negative opening balance.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingAccount ? 'Update' : 'Add'} Account
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
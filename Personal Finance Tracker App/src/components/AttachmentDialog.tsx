@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useFormatter } from '../hooks/useFormatter';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Paperclip, Upload, Download, Trash2, FileText, Image as ImageIcon, X } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface Attachment {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+}
+
+interface AttachmentDialogProps {
+  session: any;
+  // The transaction whose attachments are shown; the dialog is closed while this is null
+  transaction: { id: string; description: string } | null;
+  onClose: () => void;
+  onCountChange: (transactionId: string, count: number) => void;
+}
+
+// Same limit the server applies, checked here to fail before uploading
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+  : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function AttachmentDialog({ session, transaction, onClose, onCountChange }: AttachmentDialogProps) {
+  const { formatDate } = useFormatter(session);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [viewing, setViewing] = useState<{ attachment: Attachment; url: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const closeViewer = () => setViewing(null);
+
+  useEffect(() => {
+    closeViewer();
+    setAttachments([]);
+    if (transaction) fetchAttachments();
+  }, [transaction?.id]);
+
+  // Release the file shown in the viewer once another one is shown or the viewer closes
+  useEffect(() => () => {
+    if (viewing) URL.revokeObjectURL(viewing.url);
+  }, [viewing]);
+
+  const fetchAttachments = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/transactions/${transaction!.id}/attachments`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load attachments');
+      }
+      setAttachments(result);
+    } catch (error: any) {
+      console.error('Error fetching attachments:', error);
+      toast.error(error.message || 'Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchFile = async (attachment: Attachment) => {
+    const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/attachments/${attachment.id}`, {
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Failed to load attachment');
+    }
+    return await response.blob();
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !transaction) return;
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast.error('Attachments can be at most 10 MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/transactions/${transaction.id}/attachments`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body,
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to upload attachment');
+      }
+
+      const updated = [...attachments, result];
+      setAttachments(updated);
+      onCountChange(transaction.id, updated.length);
+      toast.success(`Attached ${result.fileName}`);
+    } catch (error: any) {
+      console.error('Error uploading attachment:', error);
+      toast.error(error.message || 'Failed to upload attachment');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleView = async (attachment: Attachment) => {
+    try {
+      const url = URL.createObjectURL(await fetchFile(attachment));
+      setViewing({ attachment, url });
+    } catch (error: any) {
+      console.error('Error opening attachment:', error);
+      toast.error(error.message || 'Failed to load attachment');
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const url = URL.createObjectURL(await fetchFile(attachment));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = attachment.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error downloading attachment:', error);
+      toast.error(error.message || 'Failed to download attachment');
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!transaction || !confirm(`Are you sure you want to delete ${attachment.fileName}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/attachments/${attachment.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete attachment');
+      }
+
+      if (viewing?.attachment.id === attachment.id) closeViewer();
+      const updated = attachments.filter(a => a.id !== attachment.id);
+      setAttachments(updated);
+      onCountChange(transaction.id, updated.length);
+      toast.success('Attachment deleted');
+    } catch (error: any) {
+      console.error('Error deleting attachment:', error);
+      toast.error(error.message || 'Failed to delete attachment');
+    }
+  };
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Paperclip className="h-5 w-5 mr-2" />
+            Attachments{transaction?.description ? ` for ${transaction.description}` : ''}
+          </DialogTitle>
+        </DialogHeader>
+
+        {viewing ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="font-medium truncate">{viewing.attachment.fileName}</p>
+              <div className="flex space-x-1">
+                <Button size="sm" variant="outline" onClick={() => handleDownload(viewing.attachment)} aria-label="Download attachment">
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={closeViewer} aria-label="Close viewer">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            {viewing.attachment.contentType === 'application/pdf' ? (
+              <iframe src={viewing.url} title={viewing.attachment.fileName} className="w-full h-[60vh] border rounded" />
+            ) : (
+              <img src={viewing.url} alt={viewing.attachment.fileName} className="max-h-[60vh] mx-auto rounded" />
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {loading ? (
+              <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+            ) : attachments.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No receipts or documents attached yet</p>
+            ) : (
+              <div className="space-y-2">
+                {attachments.map(attachment => (
+                  <div key={attachment.id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <button
+                      type="button"
+                      className="flex items-center space-x-2 min-w-0 text-left hover:underline"
+                      onClick={() => handleView(attachment)}
+                    >
+                      {attachment.contentType === 'application/pdf' ? (
+                        <FileText className="h-4 w-4 text-gray-500 shrink-0" />
+                      ) : (
+                        <ImageIcon className="h-4 w-4 text-gray-500 shrink-0" />
+                      )}
+                      <span className="truncate">{attachment.fileName}</span>
+                      <span className="text-xs text-gray-500 shrink-0">
+                        {formatSize(attachment.size)} · {formatDate(attachment.createdAt.slice(0, 10))}
+                      </span>
+                    </button>
+                    <div className="flex space-x-1">
+                      <Button size="sm" variant="outline" onClick={() => handleDownload(attachment)} aria-label="Download attachment">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(attachment)} aria-label="Delete attachment">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/jpeg,image/png,image/gif,image/webp,application/pdf"
+              className="hidden"
+              onChange={handleUpload}
+            />
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">Images and PDFs up to 10 MB</p>
+              <Button onClick={() => fileInput.current?.click()} disabled={uploading || loading}>
+                <Upload className="h-4 w-4 mr-2" />
+                {uploading ? 'Uploading...' : 'Attach File'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
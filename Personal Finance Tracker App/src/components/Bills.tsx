@@ -0,0 +1,549 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useCategories } from '../hooks/useCategories';
+import { useAccounts } from '../hooks/useAccounts';
+import { useFormatter } from '../hooks/useFormatter';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Plus, Edit, Trash2, CalendarDays, ChevronLeft, ChevronRight, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+type BillStatus = 'paid' | 'autopay' | 'overdue' | 'due';
+
+interface Bill {
+  id: string;
+  payee: string;
+  amount: number;
+  dueDay: number;
+  category: string;
+  accountId: string | null;
+  autopay: boolean;
+  month: string;
+  dueDate: string;
+  status: BillStatus | null;
+  payment: { transactionId: string; amount: number; date: string } | null;
+}
+
+interface BillsProps {
+  session: any;
+}
+
+const STATUS_STYLES: Record<BillStatus, string> = {
+  paid: 'bg-green-100 text-green-700',
+  autopay: 'bg-blue-100 text-blue-700',
+  overdue: 'bg-red-100 text-red-700',
+  due: 'bg-gray-100 text-gray-700',
+};
+
+const STATUS_LABELS: Record<BillStatus, string> = {
+  paid: 'Paid',
+  autopay: 'Autopay',
+  overdue: 'Overdue',
+  due: 'Due',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+const shiftMonth = (month: string, months: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + months, 1)).toISOString().slice(0, 7);
+};
+
+const emptyForm = {
+  payee: '',
+  amount: '',
+  dueDay: '1',
+  category: '',
+  accountId: 'none',
+  autopay: false
+};
+
+export function Bills({ session }: BillsProps) {
+  const { categoriesOfKind, labelFor } = useCategories(session);
+  const { accounts, refresh: refreshAccounts } = useAccounts(session);
+  const { formatMoney, formatDate, locale, weekStart } = useFormatter(session);
+  const [month, setMonth] = useState(todayString().slice(0, 7));
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [payingBill, setPayingBill] = useState<Bill | null>(null);
+  const [paymentData, setPaymentData] = useState({ amount: '', date: todayString(), accountId: 'none' });
+
+  useEffect(() => {
+    fetchBills();
+  }, [month]);
+
+  const fetchBills = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/bills?month=${month}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setBills(await response.json());
+      } else {
+        throw new Error('Failed to fetch bills');
+      }
+    } catch (error) {
+      console.error('Error fetching bills:', error);
+      toast.error('Failed to fetch bills');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.payee.trim() || !formData.amount || !formData.category) {
+      toast.error('Please fill in all fields');
+      return;
+    }
+
+    try {
+      const url = editingBill
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/bills/${editingBill.id}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/bills`;
+
+      const response = await fetch(url, {
+        method: editingBill ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          ...formData,
+          amount: parseFloat(formData.amount),
+          dueDay: parseInt(formData.dueDay, 10),
+          accountId: formData.accountId === 'none' ? null : formData.accountId
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save bill');
+      }
+
+      toast.success(editingBill ? 'Bill updated!' : 'Bill added!');
+      setIsDialogOpen(false);
+      setEditingBill(null);
+      setFormData(emptyForm);
+      fetchBills();
+    } catch (error: any) {
+      console.error('Error saving bill:', error);
+      toast.error(error.message || 'Failed to save bill');
+    }
+  };
+
+  const handleDelete = async (bill: Bill) => {
+    if (!confirm(`Are you sure you want to delete the ${bill.payee} bill? Past payments stay in your transactions.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/bills/${bill.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Bill deleted!');
+        fetchBills();
+      } else {
+        throw new Error('Failed to delete bill');
+      }
+    } catch (error) {
+      console.error('Error deleting bill:', error);
+      toast.error('Failed to delete bill');
+    }
+  };
+
+  const startPayment = (bill: Bill) => {
+    setPayingBill(bill);
+    setPaymentData({ amount: bill.amount.toString(), date: todayString(), accountId: bill.accountId || 'none' });
+  };
+
+  // Paying a bill records a regular expense, linked to the bill and month it pays
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingBill) return;
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/transactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          amount: parseFloat(paymentData.amount),
+          type: 'expense',
+          category: payingBill.category,
+          description: `${payingBill.payee} bill`,
+          date: paymentData.date,
+          tags: [],
+          accountId: paymentData.accountId === 'none' ? null : paymentData.accountId,
+          billId: payingBill.id,
+          billMonth: payingBill.month
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to pay bill');
+      }
+
+      toast.success(`${payingBill.payee} marked as paid!`);
+      setPayingBill(null);
+      fetchBills();
+      refreshAccounts();
+    } catch (error: any) {
+      console.error('Error paying bill:', error);
+      toast.error(error.message || 'Failed to pay bill');
+    }
+  };
+
+  const startEdit = (bill: Bill) => {
+    setEditingBill(bill);
+    setFormData({
+      payee: bill.payee,
+      amount: bill.amount.toString(),
+      dueDay: bill.dueDay.toString(),
+      category: bill.category,
+      accountId: bill.accountId || 'none',
+      autopay: bill.autopay
+    });
+    setIsDialogOpen(true);
+  };
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const leadingBlanks = (new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay() - weekStart + 7) % 7;
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const activeBills = bills.filter(bill => bill.status);
+  const billsDueOn = (day: number) => activeBills.filter(bill => Number(bill.dueDate.slice(8)) === day);
+  const monthLabel = new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const totalDue = activeBills.filter(bill => bill.status !== 'paid').reduce((sum, bill) => sum + bill.amount, 0);
+  const totalPaid = activeBills.reduce((sum, bill) => sum + (bill.payment?.amount ?? 0), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header with Add Button */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Bills</h1>
+          <p className="text-gray-600">Keep track of due dates and payments</p>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingBill(null);
+            setFormData(emptyForm);
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Bill
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>{editingBill ? 'Edit Bill' : 'Add Bill'}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="bill-payee">Payee</Label>
+                <Input
+                  id="bill-payee"
+                  value={formData.payee}
+                  onChange={(e) => setFormData(prev => ({ ...prev, payee: e.target.value }))}
+                  placeholder="e.g. Electric Company"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bill-amount">Amount</Label>
+                  <Input
+                    id="bill-amount"
+                    type="number"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                    placeholder="0.00"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bill-due-day">Due Day</Label>
+                  <Input
+                    id="bill-due-day"
+                    type="number"
+                    min="1"
+                    max="31"
+                    step="1"
+                    value={formData.dueDay}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dueDay: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categoriesOfKind('expense').map(category => (
+                        <SelectItem key={category.id} value={category.name}>{labelFor(category)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Account</Label>
+                  <Select
+                    value={formData.accountId}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No account</SelectItem>
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="bill-autopay">Autopay</Label>
+                  <p className="text-xs text-gray-500">Paid automatically, so it is never reported overdue</p>
+                </div>
+                <Switch
+                  id="bill-autopay"
+                  checked={formData.autopay}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, autopay: checked }))}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingBill ? 'Update' : 'Add'} Bill
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Calendar */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <CalendarDays className="h-5 w-5 mr-2" />
+              {monthLabel}
+            </CardTitle>
+            <div className="flex items-center space-x-1">
+              <Button size="sm" variant="outline" onClick={() => setMonth(shiftMonth(month, -1))} aria-label="Previous month">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setMonth(todayString().slice(0, 7))}>
+                Today
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setMonth(shiftMonth(month, 1))} aria-label="Next month">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            {formatMoney(totalPaid)} paid · {formatMoney(totalDue)} still to pay
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs font-medium text-gray-500 mb-1">
+            {[...WEEKDAYS.slice(weekStart), ...WEEKDAYS.slice(0, weekStart)].map(day => <div key={day}>{day}</div>)}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {Array.from({ length: leadingBlanks }).map((_, i) => (
+              <div key={`blank_${i}`} />
+            ))}
+            {Array.from({ length: daysInMonth }).map((_, i) => {
+              const day = i + 1;
+              const isToday = `${month}-${String(day).padStart(2, '0')}` === todayString();
+              return (
+                <div key={day} className={`min-h-20 border rounded p-1 ${isToday ? 'border-blue-500' : ''}`}>
+                  <p className="text-xs text-gray-500">{day}</p>
+                  <div className="space-y-1">
+                    {billsDueOn(day).map(bill => (
+                      <button
+                        key={bill.id}
+                        type="button"
+                        onClick={() => bill.status !== 'paid' && startPayment(bill)}
+                        className={`w-full truncate rounded px-1 text-left text-xs ${STATUS_STYLES[bill.status!]}`}
+                        title={`${bill.payee} · ${formatMoney(bill.amount)} · ${STATUS_LABELS[bill.status!]}`}
+                      >
+                        {bill.payee}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-2 mt-4">
+            {(Object.keys(STATUS_LABELS) as BillStatus[]).map(status => (
+              <span key={status} className={`rounded px-2 text-xs ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Bill List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Bills ({bills.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+          ) : bills.length > 0 ? (
+            <div className="space-y-2">
+              {bills.map(bill => (
+                <div key={bill.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{bill.payee}</p>
+                      {bill.status && (
+                        <Badge variant={bill.status === 'overdue' ? 'destructive' : 'secondary'}>{STATUS_LABELS[bill.status]}</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {bill.category} · due {formatDate(bill.dueDate)}
+                      {bill.payment && ` · paid ${formatDate(bill.payment.date)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <p className="font-bold text-red-600">{formatMoney(bill.amount)}</p>
+                    <div className="flex space-x-1">
+                      {bill.status && bill.status !== 'paid' && (
+                        <Button size="sm" variant="outline" onClick={() => startPayment(bill)}>
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Mark Paid
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => startEdit(bill)} aria-label="Edit bill">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(bill)} aria-label="Delete bill">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">
+              <CalendarDays className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No bills yet</p>
+              <p className="text-sm">Add your rent, utilities and subscriptions to see when they are due.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pay Bill */}
+      <Dialog open={!!payingBill} onOpenChange={(open) => !open && setPayingBill(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Pay {payingBill?.payee}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handlePay} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              This records a {payingBill?.category} expense for the bill due {payingBill && formatDate(payingBill.dueDate)}.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment-amount">Amount</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  step="0.01"
+                  value={paymentData.amount}
+                  onChange={(e) => setPaymentData(prev => ({ ...prev, amount: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-date">Paid On</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={paymentData.date}
+                  onChange={(e) => setPaymentData(prev => ({ ...prev, date: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Account</Label>
+              <Select
+                value={paymentData.accountId}
+                onValueChange={(value) => setPaymentData(prev => ({ ...prev, accountId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No account</SelectItem>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setPayingBill(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Mark Paid</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
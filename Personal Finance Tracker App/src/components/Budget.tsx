@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { useCategories } from '../hooks/useCategories';
+import { useFormatter } from '../hooks/useFormatter';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -11,22 +13,31 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Plus, Target, AlertTriangle, CheckCircle, Edit, Trash2 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 
-interface Budget {
+interface BudgetPeriodSpending {
+  periodStart: string;
+  periodEnd: string;
+  spent: number;
+  remaining: number;
+}
+
+interface Budget extends BudgetPeriodSpending {
   id: string;
   category: string;
   amount: number;
   period: 'monthly' | 'weekly';
-  spent: number;
-  remaining: number;
+  alertThresholds?: number[];
+  history: BudgetPeriodSpending[];
 }
 
 interface BudgetProps {
   session: any;
 }
 
-const CATEGORIES = ['Food', 'Transportation', 'Housing', 'Healthcare', 'Entertainment', 'Shopping', 'Utilities', 'Other'];
+const DEFAULT_ALERT_THRESHOLDS = '50, 80, 100';
 
 export function Budget({ session }: BudgetProps) {
+  const { categoriesOfKind, labelFor } = useCategories(session);
+  const { baseCurrency, formatMoney, formatDate, formatPercent } = useFormatter(session);
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -35,7 +46,8 @@ export function Budget({ session }: BudgetProps) {
   const [formData, setFormData] = useState({
     category: '',
     amount: '',
-    period: 'monthly' as 'monthly' | 'weekly'
+    period: 'monthly' as 'monthly' | 'weekly',
+    alertThresholds: DEFAULT_ALERT_THRESHOLDS
   });
 
   useEffect(() => {
@@ -73,7 +85,11 @@ export function Budget({ session }: BudgetProps) {
     try {
       const budgetData = {
         ...formData,
-        amount: parseFloat(formData.amount)
+        amount: parseFloat(formData.amount),
+        alertThresholds: formData.alertThresholds
+          .split(',')
+          .map(value => parseFloat(value))
+          .filter(value => !isNaN(value))
       };
 
       const url = editingBudget 
@@ -135,7 +151,8 @@ export function Budget({ session }: BudgetProps) {
     setFormData({
       category: '',
       amount: '',
-      period: 'monthly'
+      period: 'monthly',
+      alertThresholds: DEFAULT_ALERT_THRESHOLDS
     });
   };
 
@@ -144,7 +161,8 @@ export function Budget({ session }: BudgetProps) {
     setFormData({
       category: budget.category,
       amount: budget.amount.toString(),
-      period: budget.period
+      period: budget.period,
+      alertThresholds: (budget.alertThresholds ?? [50, 80, 100]).join(', ')
     });
     setIsAddDialogOpen(true);
   };
@@ -200,15 +218,15 @@ export function Budget({ session }: BudgetProps) {
                     <SelectValue placeholder="Select category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {CATEGORIES.map(category => (
-                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    {categoriesOfKind('expense').map(category => (
+                      <SelectItem key={category.id} value={category.name}>{labelFor(category)}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="amount">Budget Amount</Label>
+                <Label htmlFor="amount">Budget Amount ({baseCurrency})</Label>
                 <Input
                   id="amount"
                   type="number"
@@ -238,6 +256,19 @@ export function Budget({ session }: BudgetProps) {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="alertThresholds">Alert Thresholds (%)</Label>
+                <Input
+                  id="alertThresholds"
+                  value={formData.alertThresholds}
+                  onChange={(e) => setFormData(prev => ({ ...prev, alertThresholds: e.target.value }))}
+                  placeholder={DEFAULT_ALERT_THRESHOLDS}
+                />
+                <p className="text-xs text-gray-500">
+                  Get notified when spending in a period reaches these percentages of the budget.
+                </p>
+              </div>
+
               <div className="flex justify-end space-x-2 pt-4">
                 <Button 
                   type="button" 
@@ -262,7 +293,7 @@ export function Budget({ session }: BudgetProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Total Budget</p>
-                <p className="text-2xl font-bold text-blue-600">${totalBudget.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-blue-600">{formatMoney(totalBudget)}</p>
               </div>
               <div className="h-12 w-12 bg-blue-100 rounded-lg flex items-center justify-center">
                 <Target className="h-6 w-6 text-blue-600" />
@@ -276,7 +307,7 @@ export function Budget({ session }: BudgetProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Total Spent</p>
-                <p className="text-2xl font-bold text-red-600">${totalSpent.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-red-600">{formatMoney(totalSpent)}</p>
               </div>
               <div className="h-12 w-12 bg-red-100 rounded-lg flex items-center justify-center">
                 <AlertTriangle className="h-6 w-6 text-red-600" />
@@ -291,7 +322,7 @@ export function Budget({ session }: BudgetProps) {
               <div>
                 <p className="text-sm font-medium text-gray-600">Remaining</p>
                 <p className={`text-2xl font-bold ${totalRemaining >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  ${totalRemaining.toFixed(2)}
+                  {formatMoney(totalRemaining)}
                 </p>
               </div>
               <div className={`h-12 w-12 rounded-lg flex items-center justify-center ${
@@ -343,13 +374,16 @@ export function Budget({ session }: BudgetProps) {
                           </Badge>
                         </div>
                         <p className="text-sm text-gray-600">
-                          ${budget.spent.toFixed(2)} of ${budget.amount.toFixed(2)} spent
+                          {formatMoney(budget.spent)} of {formatMoney(budget.amount)} spent
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(budget.periodStart)} – {formatDate(budget.periodEnd)}
                         </p>
                       </div>
                       
                       <div className="flex items-center space-x-2">
                         <p className={`font-bold ${textColor}`}>
-                          ${budget.remaining.toFixed(2)} remaining
+                          {formatMoney(budget.remaining)} remaining
                         </p>
                         
                         <div className="flex space-x-1">
@@ -375,7 +409,7 @@ export function Budget({ session }: BudgetProps) {
                       <div className="flex justify-between text-sm">
                         <span>Progress</span>
                         <span className={textColor}>
-                          {percentageSpent.toFixed(1)}%
+                          {formatPercent(percentageSpent)}
                         </span>
                       </div>
                       <Progress 
@@ -386,7 +420,7 @@ export function Budget({ session }: BudgetProps) {
                       {status === 'exceeded' && (
                         <div className="flex items-center text-red-600 text-sm mt-2">
                           <AlertTriangle className="h-4 w-4 mr-1" />
-                          Budget exceeded by ${(budget.spent - budget.amount).toFixed(2)}
+                          Budget exceeded by {formatMoney(budget.spent - budget.amount)}
                         </div>
                       )}
                       
@@ -396,6 +430,22 @@ export function Budget({ session }: BudgetProps) {
                           Warning: 80% of budget used
                         </div>
                       )}
+
+                      {budget.history?.length > 0 && (
+                        <div className="pt-2 border-t mt-3">
+                          <p className="text-xs font-medium text-gray-500 mb-1">Previous periods</p>
+                          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                            {budget.history.map((period) => (
+                              <span key={period.periodStart}>
+                                {formatDate(period.periodStart)}: {formatMoney(period.spent)} spent,{' '}
+                                <span className={period.remaining >= 0 ? 'text-green-600' : 'text-red-600'}>
+                                  {formatMoney(period.remaining)} remaining
+                                </span>
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
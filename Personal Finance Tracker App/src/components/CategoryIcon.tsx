@@ -0,0 +1,22 @@
+import React from 'react';
+import {
+  Briefcase, Laptop, TrendingUp, Building2, Gift, Circle, Utensils, Car, Home,
+  HeartPulse, Film, ShoppingBag, Zap, GraduationCap, Plane, PawPrint, Baby, Dumbbell, Wifi, PiggyBank,
+} from 'lucide-react';
+
+// Icons a category can use, keyed by the lucide-react name stored on the category
+export const CATEGORY_ICONS = {
+  Briefcase, Laptop, TrendingUp, Building2, Gift, Circle, Utensils, Car, Home,
+  HeartPulse, Film, ShoppingBag, Zap, GraduationCap, Plane, PawPrint, Baby, Dumbbell, Wifi, PiggyBank,
+};
+
+interface CategoryIconProps {
+  icon?: string;
+  color?: string;
+  className?: string;
+}
+
+export function CategoryIcon({ icon, color, className = 'h-4 w-4' }: CategoryIconProps) {
+  const Icon = CATEGORY_ICONS[icon as keyof typeof CATEGORY_ICONS] || Circle;
+  return <Icon className={className} style={color ? { color } : undefined} />;
+}
@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useCategories, Category } from '../hooks/useCategories';
+import { getCategoryPath } from '../supabase/functions/_shared/aggregations';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { CategoryIcon, CATEGORY_ICONS } from './CategoryIcon';
+import { Plus, Edit, Trash2, Merge, Tags } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface CategoryManagerProps {
+  session: any;
+}
+
+const emptyForm = {
+  name: '',
+  kind: 'expense' as 'income' | 'expense',
+  color: '#6b7280',
+  icon: 'Circle',
+  parentId: 'none'
+};
+
+export function CategoryManager({ session }: CategoryManagerProps) {
+  const { categories, loading, categoriesOfKind, labelFor, refresh } = useCategories(session);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [formData, setFormData] = useState(emptyForm);
+
+  const openCreate = () => {
+    setEditingCategory(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      kind: category.kind,
+      color: category.color,
+      icon: category.icon,
+      parentId: category.parentId ?? 'none'
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Please enter a category name');
+      return;
+    }
+
+    try {
+      const url = editingCategory
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/categories/${editingCategory.id}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/categories`;
+
+      const response = await fetch(url, {
+        method: editingCategory ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          ...formData,
+          parentId: formData.parentId === 'none' ? null : formData.parentId
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save category');
+      }
+
+      toast.success(editingCategory
+        ? `Category updated${result.rewritten ? ` (${result.rewritten} records renamed)` : ''}!`
+        : 'Category created!');
+      setIsDialogOpen(false);
+      refresh();
+    } catch (error: any) {
+      console.error('Error saving category:', error);
+      toast.error(error.message || 'Failed to save category');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergingCategory || !mergeTargetId) {
+      toast.error('Please select a category to merge into');
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/categories/${mergingCategory.id}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ targetId: mergeTargetId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to merge categories');
+      }
+
+      toast.success(`Merged into ${result.name} (${result.rewritten} records updated)`);
+      setMergingCategory(null);
+      setMergeTargetId('');
+      refresh();
+    } catch (error: any) {
+      console.error('Error merging categories:', error);
+      toast.error(error.message || 'Failed to merge categories');
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Are you sure you want to delete the "${category.name}" category?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/categories/${category.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete category');
+      }
+
+      toast.success('Category deleted!');
+      refresh();
+    } catch (error: any) {
+      console.error('Error deleting category:', error);
+      toast.error(error.message || 'Failed to delete category');
+    }
+  };
+
+  const renderKind = (kind: 'income' | 'expense') => (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-gray-700 capitalize">{kind}</h4>
+      {categoriesOfKind(kind)
+        .sort((a, b) => labelFor(a).localeCompare(labelFor(b)))
+        .map((category) => (
+          <div
+            key={category.id}
+            className="flex items-center justify-between p-2 border rounded-lg"
+            style={{ marginLeft: `${(getCategoryPath(categories, category).length - 1) * 1.25}rem` }}
+          >
+            <div className="flex items-center space-x-2">
+              <CategoryIcon icon={category.icon} color={category.color} />
+              <span className="text-sm">{category.name}</span>
+            </div>
+            <div className="flex space-x-1">
+              <Button size="sm" variant="outline" onClick={() => openEdit(category)} aria-label="Edit category">
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setMergingCategory(category)} aria-label="Merge category">
+                <Merge className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleDelete(category)} aria-label="Delete category">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Tags className="h-5 w-5 mr-2" />
+            Categories
+          </CardTitle>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            {renderKind('expense')}
+            {renderKind('income')}
+          </div>
+        )}
+        <p className="text-sm text-gray-500 mt-4">
+          Renaming or merging a category updates all of its transactions and budgets.
+        </p>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? 'Edit Category' : 'Add Category'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Groceries"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Kind</Label>
+                <Select
+                  value={formData.kind}
+                  onValueChange={(value: 'income' | 'expense') => setFormData(prev => ({ ...prev, kind: value, parentId: 'none' }))}
+                  disabled={!!editingCategory}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="expense">Expense</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="category-color">Color</Label>
+                <Input
+                  id="category-color"
+                  type="color"
+                  value={formData.color}
+                  onChange={(e) => setFormData(prev => ({ ...prev, color: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Parent Category</Label>
+              <Select
+                value={formData.parentId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, parentId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (top level)</SelectItem>
+                  {categoriesOfKind(formData.kind)
+                    .filter(category => !editingCategory || !getCategoryPath(categories, category).some(c => c.id === editingCategory.id))
+                    .map(category => (
+                      <SelectItem key={category.id} value={category.id}>{labelFor(category)}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <div className="grid grid-cols-10 gap-1">
+                {Object.keys(CATEGORY_ICONS).map(icon => (
+                  <button
+                    key={icon}
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, icon }))}
+                    className={`p-1.5 rounded border ${formData.icon === icon ? 'border-blue-600 bg-blue-50' : 'border-transparent hover:bg-gray-100'}`}
+                    aria-label={icon}
+                  >
+                    <CategoryIcon icon={icon} color={formData.color} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingCategory ? 'Update' : 'Add'} Category
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!mergingCategory} onOpenChange={(open) => !open && setMergingCategory(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Merge "{mergingCategory?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              All transactions and budgets in this category will be moved to the selected category, and this category will be removed.
+            </p>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Merge into..." />
+              </SelectTrigger>
+              <SelectContent>
+                {mergingCategory && categoriesOfKind(mergingCategory.kind)
+                  .filter(category => category.id !== mergingCategory.id)
+                  .map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setMergingCategory(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleMerge}>Merge</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,455 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useAccounts } from '../hooks/useAccounts';
+import {
+  CSV_DATE_FORMATS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportProfile,
+  DecimalSeparator,
+  EMPTY_COLUMN_MAPPING,
+  detectDelimiter,
+  mapCsvRows,
+  parseCsv,
+  validateCsvProfile
+} from '../supabase/functions/_shared/csv_import';
+import { DuplicateStrategy, DuplicateStrategySelect, describeImportOutcome } from './DuplicateStrategySelect';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { FileSpreadsheet, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface CsvImportWizardProps {
+  session: any;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+const COLUMN_FIELDS: { key: keyof CsvColumnMapping; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'amount', label: 'Amount (signed)' },
+  { key: 'debit', label: 'Debit (money out)' },
+  { key: 'credit', label: 'Credit (money in)' },
+  { key: 'category', label: 'Category' },
+];
+
+const PREVIEW_ROWS = 5;
+
+// Rows without a category column value are imported into the default "Other" category
+const FALLBACK_CATEGORY = 'Other';
+
+const emptyProfile = (): CsvImportProfile => ({
+  name: '',
+  delimiter: ',',
+  hasHeader: true,
+  dateFormat: 'YYYY-MM-DD',
+  decimalSeparator: '.',
+  columns: { ...EMPTY_COLUMN_MAPPING }
+});
+
+export function CsvImportWizard({ session }: CsvImportWizardProps) {
+  const { accounts } = useAccounts(session);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [profiles, setProfiles] = useState<CsvImportProfile[]>([]);
+  const [profile, setProfile] = useState<CsvImportProfile>(emptyProfile());
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [accountId, setAccountId] = useState('none');
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (isDialogOpen) fetchProfiles();
+  }, [isDialogOpen]);
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import-profiles`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setProfiles(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching import profiles:', error);
+      toast.error('Failed to fetch import profiles');
+    }
+  };
+
+  const resetWizard = () => {
+    setProfile(emptyProfile());
+    setFileName('');
+    setContent('');
+    setAccountId('none');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result as string;
+      setFileName(file.name);
+      setContent(text);
+      // A saved profile already knows its delimiter; otherwise guess it from the file
+      if (!profile.id) {
+        setProfile(prev => ({ ...prev, delimiter: detectDelimiter(text) }));
+      }
+    };
+
+    reader.readAsText(file);
+    e.target.value = ''; // Reset input
+  };
+
+  const handleSelectProfile = (id: string) => {
+    const selected = profiles.find(p => p.id === id);
+    setProfile(selected ? { ...selected, columns: { ...EMPTY_COLUMN_MAPPING, ...selected.columns } } : emptyProfile());
+  };
+
+  const updateColumn = (key: keyof CsvColumnMapping, value: string) => {
+    setProfile(prev => ({ ...prev, columns: { ...prev.columns, [key]: value === 'none' ? null : parseInt(value, 10) } }));
+  };
+
+  const handleSaveProfile = async () => {
+    const error = validateCsvProfile(profile);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    try {
+      const url = profile.id
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import-profiles/${profile.id}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import-profiles`;
+
+      const response = await fetch(url, {
+        method: profile.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(profile),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save import profile');
+      }
+
+      toast.success(`Profile "${result.name}" saved!`);
+      setProfile(result);
+      fetchProfiles();
+    } catch (error: any) {
+      console.error('Error saving import profile:', error);
+      toast.error(error.message || 'Failed to save import profile');
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profile.id || !confirm(`Delete the "${profile.name}" import profile?`)) return;
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import-profiles/${profile.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Import profile deleted');
+        setProfile(emptyProfile());
+        fetchProfiles();
+      } else {
+        throw new Error('Failed to delete import profile');
+      }
+    } catch (error) {
+      console.error('Error deleting import profile:', error);
+      toast.error('Failed to delete import profile');
+    }
+  };
+
+  const rows = content ? parseCsv(content, profile.delimiter) : [];
+  const columnCount = Math.max(0, ...rows.slice(0, PREVIEW_ROWS + 1).map(row => row.length));
+  const columnNames = Array.from({ length: columnCount }, (_, i) =>
+    profile.hasHeader && rows[0]?.[i] ? rows[0][i] : `Column ${i + 1}`
+  );
+  const mappingError = validateCsvProfile({ ...profile, name: profile.name || 'Unsaved' });
+  const { transactions, errors } = content && !mappingError ? mapCsvRows(rows, profile) : { transactions: [], errors: [] };
+
+  const handleImport = async () => {
+    if (transactions.length === 0) return;
+
+    setImporting(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          transactions: transactions.map(t => ({
+            ...t,
+            category: t.category || FALLBACK_CATEGORY,
+            tags: [],
+            accountId: accountId === 'none' ? null : accountId
+          })),
+          duplicateStrategy
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import transactions');
+      }
+
+      toast.success(`Imported ${result.imported.transactions} transactions from ${fileName} (${describeImportOutcome(result.outcome.transactions)})`);
+      setIsDialogOpen(false);
+      resetWizard();
+    } catch (error: any) {
+      console.error('Error importing CSV:', error);
+      toast.error(error.message || 'Failed to import transactions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={(open) => {
+      setIsDialogOpen(open);
+      if (!open) resetWizard();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Import Bank CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Step 1: profile and file */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Bank Profile</Label>
+              <div className="flex gap-2">
+                <Select value={profile.id || 'new'} onValueChange={handleSelectProfile}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="new">New profile</SelectItem>
+                    {profiles.map(p => (
+                      <SelectItem key={p.id} value={p.id!}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {profile.id && (
+                  <Button type="button" size="sm" variant="outline" onClick={handleDeleteProfile} aria-label="Delete profile">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Statement File</Label>
+              <input
+                type="file"
+                accept=".csv,.txt"
+                onChange={handleFileChange}
+                style={{ display: 'none' }}
+                id="csv-import-file"
+              />
+              <Button type="button" variant="outline" className="w-full" onClick={() => document.getElementById('csv-import-file')?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                {fileName || 'Choose CSV file'}
+              </Button>
+            </div>
+          </div>
+
+          {content && (
+            <>
+              {/* Step 2: file format */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label>Delimiter</Label>
+                  <Select value={profile.delimiter} onValueChange={(delimiter) => setProfile(prev => ({ ...prev, delimiter }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DELIMITER_LABELS).map(([delimiter, label]) => (
+                        <SelectItem key={label} value={delimiter}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Date Format</Label>
+                  <Select value={profile.dateFormat} onValueChange={(dateFormat) => setProfile(prev => ({ ...prev, dateFormat: dateFormat as CsvDateFormat }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CSV_DATE_FORMATS.map(format => (
+                        <SelectItem key={format} value={format}>{format}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Decimal Separator</Label>
+                  <Select
+                    value={profile.decimalSeparator}
+                    onValueChange={(decimalSeparator) => setProfile(prev => ({ ...prev, decimalSeparator: decimalSeparator as DecimalSeparator }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">Point (1,234.56)</SelectItem>
+                      <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="csv-has-header">Header Row</Label>
+                  <div className="flex items-center h-9">
+                    <Switch
+                      id="csv-has-header"
+                      checked={profile.hasHeader}
+                      onCheckedChange={(hasHeader) => setProfile(prev => ({ ...prev, hasHeader }))}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Step 3: column mapping with a preview of the first rows */}
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {COLUMN_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <Label>{field.label}</Label>
+                    <Select value={profile.columns[field.key]?.toString() ?? 'none'} onValueChange={(value) => updateColumn(field.key, value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not mapped</SelectItem>
+                        {columnNames.map((name, index) => (
+                          <SelectItem key={index} value={index.toString()}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {columnNames.map((name, index) => (
+                        <TableHead key={index}>{name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(profile.hasHeader ? 1 : 0).slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {columnNames.map((_, index) => (
+                          <TableCell key={index} className="whitespace-nowrap">{row[index] ?? ''}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Step 4: account, profile and import */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Import Into Account</Label>
+                  <Select value={accountId} onValueChange={setAccountId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No account</SelectItem>
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <DuplicateStrategySelect value={duplicateStrategy} onChange={setDuplicateStrategy} />
+
+                <div className="space-y-2">
+                  <Label htmlFor="csv-profile-name">Save Mapping As</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="csv-profile-name"
+                      value={profile.name}
+                      onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="e.g., My Bank Checking"
+                    />
+                    <Button type="button" variant="outline" onClick={handleSaveProfile}>
+                      {profile.id ? 'Update' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              <div className="text-sm space-y-1">
+                {mappingError ? (
+                  <p className="text-yellow-700">{mappingError}</p>
+                ) : (
+                  <p className="text-gray-600">
+                    {transactions.length} transactions ready to import
+                    {errors.length > 0 && `, ${errors.length} rows skipped`}.
+                    {' '}Rows without a category are filed under "{FALLBACK_CATEGORY}".
+                  </p>
+                )}
+                {errors.slice(0, PREVIEW_ROWS).map(error => (
+                  <p key={error.row} className="text-red-600">Row {error.row}: {error.message}</p>
+                ))}
+              </div>
+
+              <div className="flex space-x-2 pt-2">
+                <Button type="button" className="flex-1" onClick={handleImport} disabled={importing || transactions.length === 0}>
+                  {importing ? 'Importing...' : `Import ${transactions.length} Transactions`}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => { setIsDialogOpen(false); resetWizard(); }}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useCurrency } from '../hooks/useCurrency';
+import { COMMON_CURRENCIES } from '../supabase/functions/_shared/currency';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Coins, Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface CurrencyManagerProps {
+  session: any;
+}
+
+interface RateRow {
+  code: string;
+  rate: string;
+}
+
+export function CurrencyManager({ session }: CurrencyManagerProps) {
+  const { settings, loading, refresh } = useCurrency(session);
+  const [rows, setRows] = useState<RateRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setRows(Object.entries(settings.rates).map(([code, rate]) => ({ code, rate: rate.toString() })));
+  }, [settings]);
+
+  const saveSettings = async (body: object, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/currency`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save currency settings');
+      }
+
+      toast.success(successMessage);
+      refresh();
+    } catch (error: any) {
+      console.error('Error saving currency settings:', error);
+      toast.error(error.message || 'Failed to save currency settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRates = () => {
+    const rates: Record<string, number> = {};
+    for (const row of rows) {
+      const code = row.code.trim().toUpperCase();
+      const rate = parseFloat(row.rate);
+      if (!/^[A-Z]{3}$/.test(code) || !(rate > 0)) {
+        toast.error('Each rate needs a three-letter currency code and a positive rate');
+        return;
+      }
+      rates[code] = rate;
+    }
+
+    saveSettings({ rates }, 'Exchange rates saved!');
+  };
+
+  const handleImportRates = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/currency/rates/import`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ content: event.target?.result as string }),
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to import exchange rates');
+        }
+
+        toast.success(`Imported ${result.imported} exchange rates!`);
+        refresh();
+      } catch (error: any) {
+        console.error('Error importing exchange rates:', error);
+        toast.error(error.message || 'Failed to import exchange rates');
+      }
+    };
+
+    reader.readAsText(file);
+    e.target.value = ''; // Reset input
+  };
+
+  const baseOptions = [...new Set([settings.baseCurrency, ...Object.keys(settings.rates), ...COMMON_CURRENCIES])];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Coins className="h-5 w-5 mr-2" />
+          Currencies
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Base Currency</Label>
+              <Select
+                value={settings.baseCurrency}
+                onValueChange={(value) => saveSettings({ baseCurrency: value }, `Base currency changed to ${value}`)}
+                disabled={saving}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {baseOptions.map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500">
+                Totals, charts and budgets are shown in the base currency. Transactions keep their own currency.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Exchange Rates</Label>
+              <p className="text-sm text-gray-500">Value of one unit of each currency in {settings.baseCurrency}.</p>
+              {rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    className="w-24"
+                    aria-label="Currency code"
+                    value={row.code}
+                    maxLength={3}
+                    onChange={(e) => setRows(prev => prev.map((r, i) => i === index ? { ...r, code: e.target.value.toUpperCase() } : r))}
+                    placeholder="EUR"
+                  />
+                  <Input
+                    type="number"
+                    step="any"
+                    aria-label="Rate"
+                    value={row.rate}
+                    onChange={(e) => setRows(prev => prev.map((r, i) => i === index ? { ...r, rate: e.target.value } : r))}
+                    placeholder="1.00"
+                  />
+                  <Button size="sm" variant="outline" onClick={() => setRows(prev => prev.filter((_, i) => i !== index))} aria-label="Remove rate">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {settings.missingRates.length > 0 && (
+                <p className="text-sm text-yellow-700">
+                  Missing rates for {settings.missingRates.join(', ')}.
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setRows(prev => [...prev, { code: '', rate: '' }])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rate
+              </Button>
+              <input
+                type="file"
+                accept=".csv,.json,.txt"
+                onChange={handleImportRates}
+                style={{ display: 'none' }}
+                id="rates-file"
+              />
+              <Button variant="outline" size="sm" onClick={() => document.getElementById('rates-file')?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import Rates
+              </Button>
+              <Button size="sm" onClick={handleSaveRates} disabled={saving}>
+                Save Rates
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500">
+              Rate files can be CSV with <code>currency,rate</code> lines or JSON like <code>{'{ "EUR": 1.08 }'}</code>.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
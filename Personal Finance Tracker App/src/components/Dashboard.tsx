@@ -1,17 +1,41 @@
 import React, { useState, useEffect } from 'react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { useCategories } from '../hooks/useCategories';
+import { useAccounts, ACCOUNT_TYPE_LABELS } from '../hooks/useAccounts';
+import { useFormatter } from '../hooks/useFormatter';
+import {
+  categoryTotals,
+  getCategoryPath,
+  monthlyTotals,
+  rollUpCategoryTotals,
+  summarizeTransactions
+} from '../supabase/functions/_shared/aggregations';
+import { SplitLine } from '../supabase/functions/_shared/splits';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { TrendingUp, TrendingDown, DollarSign, CreditCard, PieChart, Calendar } from 'lucide-react';
-import { PieChart as RechartsPieChart, Cell, ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { Button } from './ui/button';
+import { TrendingUp, TrendingDown, DollarSign, CreditCard, PieChart, Calendar, ChevronLeft, Hash, Landmark, ArrowLeftRight, AlertTriangle } from 'lucide-react';
+import { PieChart as RechartsPieChart, Pie, Cell, ResponsiveContainer, AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
 
 interface Transaction {
   id: string;
   amount: number;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   category: string;
   description: string;
   date: string;
+  currency?: string;
+  tags?: string[];
+  splits?: SplitLine[];
+  transferDirection?: 'in' | 'out';
+}
+
+interface OverdueBill {
+  billId: string;
+  payee: string;
+  amount: number;
+  month: string;
+  dueDate: string;
 }
 
 interface DashboardProps {
@@ -21,8 +45,13 @@ interface DashboardProps {
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
 
 export function Dashboard({ session }: DashboardProps) {
+  const { categories } = useCategories(session);
+  const { accounts } = useAccounts(session);
+  const { settings, preferences, toBaseTransactions, formatMoney, formatDate, formatMonth } = useFormatter(session);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [overdueBills, setOverdueBills] = useState<OverdueBill[]>([]);
   const [loading, setLoading] = useState(true);
+  const [drillCategoryId, setDrillCategoryId] = useState<string | null>(null);
   const [stats, setStats] = useState({
     totalIncome: 0,
     totalExpenses: 0,
@@ -32,8 +61,14 @@ export function Dashboard({ session }: DashboardProps) {
 
   useEffect(() => {
     fetchTransactions();
+    fetchOverdueBills();
   }, []);
 
+  // Totals are in the base currency, so they are recalculated once the exchange rates have loaded
+  useEffect(() => {
+    calculateStats(toBaseTransactions(transactions));
+  }, [transactions, settings, preferences]);
+
   const fetchTransactions = async () => {
     try {
       const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/transactions`, {
@@ -44,8 +79,7 @@ export function Dashboard({ session }: DashboardProps) {
 
       if (response.ok) {
         const data = await response.json();
-        setTransactions(data);
-        calculateStats(data);
+        setTransactions(data.transactions);
       }
     } catch (error) {
       console.error('Error fetching transactions:', error);
@@ -54,60 +88,67 @@ export function Dashboard({ session }: DashboardProps) {
     }
   };
 
+  const fetchOverdueBills = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/bills/overdue`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setOverdueBills(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching overdue bills:', error);
+    }
+  };
+
   const calculateStats = (transactions: Transaction[]) => {
-    const totalIncome = transactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0);
-    
-    const totalExpenses = transactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0);
-
-    setStats({
-      totalIncome,
-      totalExpenses,
-      balance: totalIncome - totalExpenses,
-      transactionCount: transactions.length
-    });
+    setStats(summarizeTransactions(transactions));
   };
 
+  // Charts mix transactions in several currencies, so they work on base currency amounts
+  const baseTransactions = toBaseTransactions(transactions);
+
   const getCategoryData = () => {
-    const categoryTotals = transactions
+    // Subcategory spending rolls up into the level currently drilled into
+    return rollUpCategoryTotals(categoryTotals(baseTransactions, 'expense'), categories, 'expense', drillCategoryId);
+  };
+
+  // A transaction counts fully toward each of its tags, so tag totals may overlap
+  const getTagData = () => {
+    const tagTotals = baseTransactions
       .filter(t => t.type === 'expense')
       .reduce((acc, transaction) => {
-        acc[transaction.category] = (acc[transaction.category] || 0) + transaction.amount;
+        for (const tag of transaction.tags || []) {
+          acc[tag] = (acc[tag] || 0) + transaction.amount;
+        }
         return acc;
       }, {} as Record<string, number>);
 
-    return Object.entries(categoryTotals).map(([name, value]) => ({ name, value }));
+    return Object.entries(tagTotals)
+      .map(([name, value]) => ({ name: `#${name}`, value }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 10);
   };
 
-  const getMonthlyData = () => {
-    const monthlyData = transactions.reduce((acc, transaction) => {
-      const month = new Date(transaction.date).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
-      const existing = acc.find(item => item.month === month);
-      
-      if (existing) {
-        if (transaction.type === 'income') {
-          existing.income += transaction.amount;
-        } else {
-          existing.expenses += transaction.amount;
-        }
-      } else {
-        acc.push({
-          month,
-          income: transaction.type === 'income' ? transaction.amount : 0,
-          expenses: transaction.type === 'expense' ? transaction.amount : 0,
-        });
-      }
-      
-      return acc;
-    }, [] as any[]);
+  const drillPath = () => {
+    const drillCategory = categories.find(c => c.id === drillCategoryId);
+    return drillCategory ? getCategoryPath(categories, drillCategory) : [];
+  };
 
-    return monthlyData.sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime());
+  const getMonthlyData = () => {
+    return monthlyTotals(baseTransactions).map(month => ({ ...month, month: formatMonth(month.key) }));
   };
 
+  // With accounts set up, the balance is the sum of real account balances
+  const balance = accounts.length > 0
+    ? accounts.reduce((sum, account) => sum + account.balance, 0)
+    : stats.balance;
+
   const recentTransactions = transactions
+    .filter(t => t.transferDirection !== 'in')
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, 5);
 
@@ -128,6 +169,38 @@ export function Dashboard({ session }: DashboardProps) {
 
   return (
     <div className="space-y-6">
+      {/* Overdue Bills */}
+      {overdueBills.length > 0 && (
+        <Card className="border-red-200 bg-red-50">
+          <CardHeader>
+            <CardTitle className="flex items-center text-red-700">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              Overdue Bills ({overdueBills.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {overdueBills.map((bill) => (
+                <div key={`${bill.billId}_${bill.month}`} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{bill.payee}</p>
+                    <p className="text-sm text-red-600">Due {formatDate(bill.dueDate)}</p>
+                  </div>
+                  <p className="font-bold text-red-600">{formatMoney(bill.amount)}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600 mt-4">Mark them paid from the Bills tab.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {settings.missingRates.length > 0 && (
+        <p className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          No exchange rate for {settings.missingRates.join(', ')}. Those amounts are counted unconverted until you add rates in Settings.
+        </p>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
@@ -135,7 +208,7 @@ export function Dashboard({ session }: DashboardProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Total Income</p>
-                <p className="text-2xl font-bold text-green-600">${stats.totalIncome.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-green-600">{formatMoney(stats.totalIncome)}</p>
               </div>
               <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
                 <TrendingUp className="h-6 w-6 text-green-600" />
@@ -149,7 +222,7 @@ export function Dashboard({ session }: DashboardProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Total Expenses</p>
-                <p className="text-2xl font-bold text-red-600">${stats.totalExpenses.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-red-600">{formatMoney(stats.totalExpenses)}</p>
               </div>
               <div className="h-12 w-12 bg-red-100 rounded-lg flex items-center justify-center">
                 <TrendingDown className="h-6 w-6 text-red-600" />
@@ -163,12 +236,17 @@ export function Dashboard({ session }: DashboardProps) {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Balance</p>
-                <p className={`text-2xl font-bold ${stats.balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  ${stats.balance.toFixed(2)}
+                <p className={`text-2xl font-bold ${balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatMoney(balance)}
                 </p>
+                {accounts.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Across {accounts.length} account{accounts.length === 1 ? '' : 's'}
+                  </p>
+                )}
               </div>
-              <div className={`h-12 w-12 rounded-lg flex items-center justify-center ${stats.balance >= 0 ? 'bg-green-100' : 'bg-red-100'}`}>
-                <DollarSign className={`h-6 w-6 ${stats.balance >= 0 ? 'text-green-600' : 'text-red-600'}`} />
+              <div className={`h-12 w-12 rounded-lg flex items-center justify-center ${balance >= 0 ? 'bg-green-100' : 'bg-red-100'}`}>
+                <DollarSign className={`h-6 w-6 ${balance >= 0 ? 'text-green-600' : 'text-red-600'}`} />
               </div>
             </div>
           </CardContent>
@@ -189,6 +267,33 @@ export function Dashboard({ session }: DashboardProps) {
         </Card>
       </div>
 
+      {/* Account Balances */}
+      {accounts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Landmark className="h-5 w-5 mr-2" />
+              Accounts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {accounts.map((account) => (
+                <div key={account.id} className="p-4 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium">{account.name}</p>
+                    <Badge variant="secondary">{ACCOUNT_TYPE_LABELS[account.type]}</Badge>
+                  </div>
+                  <p className={`text-xl font-bold mt-2 ${account.balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatMoney(account.balance)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Monthly Trends */}
@@ -206,7 +311,7 @@ export function Dashboard({ session }: DashboardProps) {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="month" />
                   <YAxis />
-                  <Tooltip formatter={(value: number) => [`$${value.toFixed(2)}`, '']} />
+                  <Tooltip formatter={(value: number) => [formatMoney(value), '']} />
                   <Legend />
                   <Area type="monotone" dataKey="income" stackId="1" stroke="#10b981" fill="#10b981" fillOpacity={0.6} name="Income" />
                   <Area type="monotone" dataKey="expenses" stackId="2" stroke="#ef4444" fill="#ef4444" fillOpacity={0.6} name="Expenses" />
@@ -227,17 +332,47 @@ export function Dashboard({ session }: DashboardProps) {
               <PieChart className="h-5 w-5 mr-2" />
               Expense Categories
             </CardTitle>
+            {drillCategoryId && (
+              <div className="flex items-center text-sm text-gray-600">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDrillCategoryId(drillPath().slice(-2, -1)[0]?.id ?? null)}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Back
+                </Button>
+                <button className="hover:underline" onClick={() => setDrillCategoryId(null)}>All</button>
+                {drillPath().map(category => (
+                  <span key={category.id}>
+                    {' › '}
+                    <button className="hover:underline" onClick={() => setDrillCategoryId(category.id)}>{category.name}</button>
+                  </span>
+                ))}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             {getCategoryData().length > 0 ? (
               <ResponsiveContainer width="100%" height={300}>
                 <RechartsPieChart>
-                  <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
-                  <RechartsPieChart data={getCategoryData()}>
+                  <Tooltip formatter={(value: number) => formatMoney(value)} />
+                  <Legend />
+                  <Pie
+                    data={getCategoryData()}
+                    dataKey="value"
+                    nameKey="name"
+                    outerRadius={100}
+                    onClick={(slice: any) => slice.hasChildren && setDrillCategoryId(slice.id)}
+                  >
                     {getCategoryData().map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      <Cell
+                        key={`cell-${index}`}
+                        fill={entry.color || COLORS[index % COLORS.length]}
+                        cursor={entry.hasChildren ? 'pointer' : 'default'}
+                      />
                     ))}
-                  </RechartsPieChart>
+                  </Pie>
                 </RechartsPieChart>
               </ResponsiveContainer>
             ) : (
@@ -249,6 +384,29 @@ export function Dashboard({ session }: DashboardProps) {
         </Card>
       </div>
 
+      {/* Spending by Tag */}
+      {getTagData().length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Hash className="h-5 w-5 mr-2" />
+              Spending by Tag
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={Math.max(getTagData().length * 40, 120)}>
+              <BarChart data={getTagData()} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" />
+                <YAxis type="category" dataKey="name" width={120} />
+                <Tooltip formatter={(value: number) => [formatMoney(value), 'Spent']} />
+                <Bar dataKey="value" fill="#8884d8" />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Transactions */}
       <Card>
         <CardHeader>
@@ -261,10 +419,14 @@ export function Dashboard({ session }: DashboardProps) {
                 <div key={transaction.id} className="flex items-center justify-between p-4 border rounded-lg">
                   <div className="flex items-center space-x-4">
                     <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                      transaction.type === 'income' ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'
+                      transaction.type === 'income' ? 'bg-green-100 text-green-600'
+                        : transaction.type === 'transfer' ? 'bg-blue-100 text-blue-600'
+                        : 'bg-red-100 text-red-600'
                     }`}>
                       {transaction.type === 'income' ? (
                         <TrendingUp className="h-5 w-5" />
+                      ) : transaction.type === 'transfer' ? (
+                        <ArrowLeftRight className="h-5 w-5" />
                       ) : (
                         <TrendingDown className="h-5 w-5" />
                       )}
@@ -274,13 +436,17 @@ export function Dashboard({ session }: DashboardProps) {
                       <div className="flex items-center space-x-2">
                         <Badge variant="secondary">{transaction.category}</Badge>
                         <span className="text-sm text-gray-500">
-                          {new Date(transaction.date).toLocaleDateString()}
+                          {formatDate(transaction.date)}
                         </span>
                       </div>
                     </div>
                   </div>
-                  <p className={`font-bold ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
-                    {transaction.type === 'income' ? '+' : '-'}${transaction.amount.toFixed(2)}
+                  <p className={`font-bold ${
+                    transaction.type === 'income' ? 'text-green-600'
+                      : transaction.type === 'transfer' ? 'text-blue-600'
+                      : 'text-red-600'
+                  }`}>
+                    {transaction.type === 'income' ? '+' : transaction.type === 'transfer' ? '' : '-'}{formatMoney(transaction.amount, transaction.currency)}
                   </p>
                 </div>
               ))}
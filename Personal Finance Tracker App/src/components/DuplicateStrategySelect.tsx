@@ -0,0 +1,44 @@
+import React from 'react';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+// Mirrors the strategies accepted by the import endpoints
+export type DuplicateStrategy = 'skip' | 'overwrite' | 'keep';
+
+export interface ImportOutcome {
+  created: number;
+  skipped: number;
+  overwritten: number;
+  kept: number;
+}
+
+interface DuplicateStrategySelectProps {
+  value: DuplicateStrategy;
+  onChange: (strategy: DuplicateStrategy) => void;
+}
+
+// Summarizes an import outcome, e.g. "12 new, 3 duplicates skipped"
+export const describeImportOutcome = (outcome: ImportOutcome) => [
+  `${outcome.created} new`,
+  outcome.overwritten > 0 && `${outcome.overwritten} updated`,
+  outcome.kept > 0 && `${outcome.kept} duplicates kept`,
+  outcome.skipped > 0 && `${outcome.skipped} duplicates skipped`,
+].filter(Boolean).join(', ');
+
+export function DuplicateStrategySelect({ value, onChange }: DuplicateStrategySelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Duplicates</Label>
+      <Select value={value} onValueChange={(strategy) => onChange(strategy as DuplicateStrategy)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="skip">Skip transactions already imported</SelectItem>
+          <SelectItem value="overwrite">Overwrite existing transactions</SelectItem>
+          <SelectItem value="keep">Keep both copies</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
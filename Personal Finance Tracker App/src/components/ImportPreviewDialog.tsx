@@ -0,0 +1,181 @@
+import React from 'react';
+import { useFormatter } from '../hooks/useFormatter';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ImportOutcome, describeImportOutcome } from './DuplicateStrategySelect';
+
+interface RowIssue {
+  field: string;
+  message: string;
+}
+
+interface PreviewRow {
+  row: number;
+  record: any | null;
+  errors: RowIssue[];
+  warnings: RowIssue[];
+  action: 'create' | 'skip' | 'overwrite' | 'keep' | 'invalid';
+}
+
+interface BudgetImpact {
+  id: string;
+  category: string;
+  period: string;
+  amount: number;
+  periodStart: string;
+  periodEnd: string;
+  spent: number;
+  projectedSpent: number;
+  remaining: number;
+  isNew: boolean;
+}
+
+// Response of POST /import with `dryRun`
+export interface ImportPreview {
+  transactions: PreviewRow[];
+  budgets: PreviewRow[];
+  outcome: { transactions: ImportOutcome; budgets: ImportOutcome };
+  invalid: { transactions: number; budgets: number };
+  restored: { accounts: number; categories: number; payees: number };
+  upgradedFrom: string | null;
+  budgetImpact: BudgetImpact[];
+}
+
+interface ImportPreviewDialogProps {
+  session: any;
+  fileName: string;
+  preview: ImportPreview | null;
+  importing: boolean;
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<PreviewRow['action'], string> = {
+  create: 'New',
+  skip: 'Duplicate, skipped',
+  overwrite: 'Overwrites existing',
+  keep: 'Duplicate, kept',
+  invalid: 'Not imported',
+};
+
+// Rows listed in the preview; rows with errors or warnings come first
+const PREVIEW_LIMIT = 50;
+
+export function ImportPreviewDialog({ session, fileName, preview, importing, onAccept, onCancel }: ImportPreviewDialogProps) {
+  const { formatMoney, formatDate } = useFormatter(session);
+
+  if (!preview) return null;
+
+  const rows = [
+    ...preview.transactions.map(row => ({ ...row, kind: 'Transaction' })),
+    ...preview.budgets.map(row => ({ ...row, kind: 'Budget' })),
+  ];
+  const flagged = rows.filter(row => row.errors.length > 0 || row.warnings.length > 0);
+  const listed = [...flagged, ...rows.filter(row => !flagged.includes(row))].slice(0, PREVIEW_LIMIT);
+  const importable = rows.length - preview.invalid.transactions - preview.invalid.budgets;
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Import of {fileName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <p>Transactions: {describeImportOutcome(preview.outcome.transactions)}
+              {preview.invalid.transactions > 0 && `, ${preview.invalid.transactions} with errors`}.
+            </p>
+            <p>Budgets: {describeImportOutcome(preview.outcome.budgets)}
+              {preview.invalid.budgets > 0 && `, ${preview.invalid.budgets} with errors`}.
+            </p>
+            {(preview.restored.accounts > 0 || preview.restored.categories > 0 || preview.restored.payees > 0) && (
+              <p>
+                Adds {preview.restored.accounts} accounts, {preview.restored.categories} categories and {preview.restored.payees} payees from the backup.
+              </p>
+            )}
+            {preview.upgradedFrom && (
+              <p className="text-gray-500">This backup uses export format {preview.upgradedFrom} and is upgraded on import.</p>
+            )}
+            {preview.invalid.transactions + preview.invalid.budgets > 0 && (
+              <p className="text-red-600">Rows with errors are left out of the import.</p>
+            )}
+          </div>
+
+          {preview.budgetImpact.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Effect on Budgets This Period</h4>
+              {preview.budgetImpact.map(impact => (
+                <div key={impact.id} className="flex items-center justify-between p-2 border rounded-lg">
+                  <div>
+                    <span className="font-medium">{impact.category}</span>
+                    <span className="text-gray-500"> · {impact.period}{impact.isNew && ' · new budget'}</span>
+                  </div>
+                  <div className={impact.remaining < 0 ? 'text-red-600' : 'text-gray-700'}>
+                    {formatMoney(impact.spent)} → {formatMoney(impact.projectedSpent)} of {formatMoney(impact.amount)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {listed.length > 0 && (
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {listed.map(row => (
+                    <TableRow key={`${row.kind}-${row.row}`}>
+                      <TableCell className="whitespace-nowrap">{row.kind} {row.row}</TableCell>
+                      <TableCell>
+                        {row.record
+                          ? row.kind === 'Budget'
+                            ? `${row.record.category} · ${formatMoney(row.record.amount)} ${row.record.period}`
+                            : `${formatDate(row.record.date)} · ${row.record.description || row.record.category} · ${formatMoney(row.record.amount, row.record.currency)}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={row.action === 'invalid' ? 'destructive' : row.action === 'create' ? 'default' : 'secondary'}>
+                          {ACTION_LABELS[row.action]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="space-y-1">
+                        {row.errors.map((issue, index) => (
+                          <p key={`e${index}`} className="text-red-600">{issue.message}</p>
+                        ))}
+                        {row.warnings.map((issue, index) => (
+                          <p key={`w${index}`} className="text-yellow-700">{issue.message}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {rows.length > listed.length && (
+            <p className="text-gray-500">Showing {listed.length} of {rows.length} rows.</p>
+          )}
+
+          <div className="flex space-x-2 pt-2">
+            <Button type="button" className="flex-1" onClick={onAccept} disabled={importing || importable === 0}>
+              {importing ? 'Importing...' : `Import ${importable} Records`}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={importing}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
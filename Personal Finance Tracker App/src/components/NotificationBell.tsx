@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useFormatter } from '../hooks/useFormatter';
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Bell, AlertTriangle } from 'lucide-react';
+
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt: string;
+}
+
+interface NotificationBellProps {
+  session: any;
+}
+
+const POLL_INTERVAL_MS = 60000;
+
+export function NotificationBell({ session }: NotificationBellProps) {
+  const { formatDateTime } = useFormatter(session);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/notifications`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  const markAsRead = async (notification: Notification) => {
+    if (notification.read) return;
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/notifications/${notification.id}/read`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read: true } : n));
+        setUnreadCount(prev => Math.max(prev - 1, 0));
+      }
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const markAllAsRead = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/notifications/read-all`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+        setUnreadCount(0);
+      }
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-2 -right-2 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" onClick={markAllAsRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={(e) => {
+                  e.preventDefault();
+                  markAsRead(notification);
+                }}
+                className={`items-start ${notification.read ? 'opacity-60' : ''}`}
+              >
+                <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-600" />
+                <div className="flex-1 space-y-1">
+                  <p className={`text-sm ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</p>
+                  <p className="text-xs text-gray-600">{notification.message}</p>
+                  <p className="text-xs text-gray-400">{formatDateTime(notification.createdAt)}</p>
+                </div>
+                {!notification.read && <span className="h-2 w-2 mt-1.5 rounded-full bg-blue-600" />}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ) : (
+          <div className="py-6 text-center text-sm text-gray-500">
+            No notifications yet
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
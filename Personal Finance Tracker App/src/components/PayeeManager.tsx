@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { usePayees, Payee } from '../hooks/usePayees';
+import { useCategories } from '../hooks/useCategories';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Edit, Trash2, Merge, Store, Search } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface PayeeManagerProps {
+  session: any;
+}
+
+const emptyForm = {
+  name: '',
+  aliases: '',
+  defaultCategory: 'none'
+};
+
+export function PayeeManager({ session }: PayeeManagerProps) {
+  const { payees, loading, refresh } = usePayees(session);
+  const { categories } = useCategories(session);
+  const [search, setSearch] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPayee, setEditingPayee] = useState<Payee | null>(null);
+  const [mergingPayee, setMergingPayee] = useState<Payee | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Default categories are stored by name, which may be shared by an income and an expense category
+  const categoryNames = [...new Set(categories.map(category => category.name))].sort((a, b) => a.localeCompare(b));
+
+  const visiblePayees = payees.filter(payee => {
+    const term = search.trim().toLowerCase();
+    return !term || [payee.name, ...payee.aliases].some(name => name.toLowerCase().includes(term));
+  });
+
+  const openCreate = () => {
+    setEditingPayee(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (payee: Payee) => {
+    setEditingPayee(payee);
+    setFormData({
+      name: payee.name,
+      aliases: payee.aliases.join(', '),
+      defaultCategory: payee.defaultCategory ?? 'none'
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Please enter a payee name');
+      return;
+    }
+
+    try {
+      const url = editingPayee
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/payees/${editingPayee.id}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/payees`;
+
+      const response = await fetch(url, {
+        method: editingPayee ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          name: formData.name,
+          aliases: formData.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+          defaultCategory: formData.defaultCategory === 'none' ? null : formData.defaultCategory
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save payee');
+      }
+
+      toast.success(editingPayee ? 'Payee updated!' : 'Payee created!');
+      setIsDialogOpen(false);
+      refresh();
+    } catch (error: any) {
+      console.error('Error saving payee:', error);
+      toast.error(error.message || 'Failed to save payee');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergingPayee || !mergeTargetId) {
+      toast.error('Please select a payee to merge into');
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/payees/${mergingPayee.id}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ targetId: mergeTargetId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to merge payees');
+      }
+
+      toast.success(`Merged into ${result.name} (${result.moved} transactions moved)`);
+      setMergingPayee(null);
+      setMergeTargetId('');
+      refresh();
+    } catch (error: any) {
+      console.error('Error merging payees:', error);
+      toast.error(error.message || 'Failed to merge payees');
+    }
+  };
+
+  const handleDelete = async (payee: Payee) => {
+    if (!confirm(`Are you sure you want to delete the payee "${payee.name}"? Its transactions are kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/payees/${payee.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete payee');
+      }
+
+      toast.success('Payee deleted!');
+      refresh();
+    } catch (error: any) {
+      console.error('Error deleting payee:', error);
+      toast.error(error.message || 'Failed to delete payee');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Store className="h-5 w-5 mr-2" />
+            Payees
+          </CardTitle>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Payee
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : payees.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No payees yet. They are created from transaction descriptions.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search payees..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {visiblePayees.map(payee => (
+                <div key={payee.id} className="flex items-center justify-between p-2 border rounded-lg">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium">{payee.name}</span>
+                      <span className="text-xs text-gray-500">
+                        {payee.transactionCount} {payee.transactionCount === 1 ? 'transaction' : 'transactions'}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {payee.defaultCategory && (
+                        <Badge variant="secondary" className="text-xs">{payee.defaultCategory}</Badge>
+                      )}
+                      {payee.aliases.map(alias => (
+                        <Badge key={alias} variant="outline" className="text-xs">{alias}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button size="sm" variant="outline" onClick={() => openEdit(payee)} aria-label="Edit payee">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setMergingPayee(payee)} aria-label="Merge payee">
+                      <Merge className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(payee)} aria-label="Delete payee">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        <p className="text-sm text-gray-500 mt-4">
+          Transactions are matched to a payee by its name or aliases, ignoring card numbers, store numbers and locations.
+          Merging a payee keeps its name as an alias of the payee it is merged into.
+        </p>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingPayee ? 'Edit Payee' : 'Add Payee'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="payee-name">Name</Label>
+              <Input
+                id="payee-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Starbucks"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payee-aliases">Aliases</Label>
+              <Input
+                id="payee-aliases"
+                value={formData.aliases}
+                onChange={(e) => setFormData(prev => ({ ...prev, aliases: e.target.value }))}
+                placeholder="e.g. SBUX, Starbucks Coffee"
+              />
+              <p className="text-xs text-gray-500">Other names the bank uses for this payee, separated by commas.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Default Category</Label>
+              <Select
+                value={formData.defaultCategory}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, defaultCategory: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {categoryNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">Suggested for new transactions and given to imported ones without a category.</p>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingPayee ? 'Update' : 'Add'} Payee
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!mergingPayee} onOpenChange={(open) => !open && setMergingPayee(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Merge "{mergingPayee?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              All transactions with this payee will be moved to the selected payee, and this payee's name and aliases will become its aliases.
+            </p>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Merge into..." />
+              </SelectTrigger>
+              <SelectContent>
+                {mergingPayee && payees
+                  .filter(payee => payee.id !== mergingPayee.id)
+                  .map(payee => (
+                    <SelectItem key={payee.id} value={payee.id}>{payee.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setMergingPayee(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleMerge}>Merge</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
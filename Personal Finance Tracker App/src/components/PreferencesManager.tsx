@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useCurrency } from '../hooks/useCurrency';
+import { usePreferences } from '../hooks/usePreferences';
+import { COMMON_CURRENCIES } from '../supabase/functions/_shared/currency';
+import { DATE_FORMATS, DateFormat, Preferences, WEEK_DAYS } from '../supabase/functions/_shared/preferences';
+import { createFormatter } from '../supabase/functions/_shared/format';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { SlidersHorizontal } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface PreferencesManagerProps {
+  session: any;
+}
+
+const LOCALES = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'it-IT', label: 'Italiano (Italia)' },
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'nl-NL', label: 'Nederlands (Nederland)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+];
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  'locale': 'Match number locale',
+  'YYYY-MM-DD': 'YYYY-MM-DD',
+  'MM/DD/YYYY': 'MM/DD/YYYY',
+  'DD/MM/YYYY': 'DD/MM/YYYY',
+  'DD.MM.YYYY': 'DD.MM.YYYY',
+};
+
+const FALLBACK_TIMEZONES = [
+  'UTC', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles',
+  'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Asia/Kolkata', 'Asia/Singapore',
+  'Asia/Tokyo', 'Australia/Sydney',
+];
+
+// Intl.supportedValuesOf is missing from older browsers and the ES2020 type definitions
+const timezones: string[] = (Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] })
+  .supportedValuesOf?.('timeZone') ?? FALLBACK_TIMEZONES;
+
+// Select has no empty value, so "use the default" is stored in the form as this sentinel
+const DEFAULT_OPTION = 'default';
+
+export function PreferencesManager({ session }: PreferencesManagerProps) {
+  const { settings } = useCurrency(session);
+  const { preferences, loading, refresh } = usePreferences(session);
+  const [formData, setFormData] = useState<Preferences>(preferences);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(preferences);
+  }, [preferences]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/preferences`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          currency: formData.currency,
+          locale: formData.locale,
+          dateFormat: formData.dateFormat,
+          timezone: formData.timezone,
+          weekStart: formData.weekStart
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save preferences');
+      }
+
+      toast.success('Preferences saved!');
+      refresh();
+    } catch (error: any) {
+      console.error('Error saving preferences:', error);
+      toast.error(error.message || 'Failed to save preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currencyOptions = [...new Set([settings.baseCurrency, ...Object.keys(settings.rates), ...COMMON_CURRENCIES])];
+  const preview = createFormatter(formData, settings);
+  const displayCurrencyHasRate = !formData.currency || preview.displayCurrency === formData.currency;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <SlidersHorizontal className="h-5 w-5 mr-2" />
+          Preferences
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Display Currency</Label>
+                <Select
+                  value={formData.currency || DEFAULT_OPTION}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value === DEFAULT_OPTION ? null : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_OPTION}>Base currency ({settings.baseCurrency})</SelectItem>
+                    {currencyOptions.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!displayCurrencyHasRate && (
+                  <p className="text-sm text-yellow-700">
+                    Add an exchange rate for {formData.currency} to show totals in it.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Number Locale</Label>
+                <Select
+                  value={formData.locale || DEFAULT_OPTION}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, locale: value === DEFAULT_OPTION ? null : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_OPTION}>Browser default</SelectItem>
+                    {LOCALES.map(locale => (
+                      <SelectItem key={locale.value} value={locale.value}>{locale.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Date Format</Label>
+                <Select
+                  value={formData.dateFormat}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, dateFormat: value as DateFormat }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Timezone</Label>
+                <Select
+                  value={formData.timezone || DEFAULT_OPTION}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, timezone: value === DEFAULT_OPTION ? null : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_OPTION}>Browser default</SelectItem>
+                    {timezones.map(timezone => (
+                      <SelectItem key={timezone} value={timezone}>{timezone.replace(/_/g, ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>First Day of Week</Label>
+                <Select
+                  value={formData.weekStart.toString()}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, weekStart: parseInt(value, 10) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEK_DAYS.map((day, index) => (
+                      <SelectItem key={day} value={index.toString()}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500">Weekly budgets and the bills calendar start on this day.</p>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              Preview: {preview.formatMoney(1234.5)} · {preview.formatDate(preview.today())}
+            </p>
+
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Preferences'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,533 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useCategories } from '../hooks/useCategories';
+import { useAccounts } from '../hooks/useAccounts';
+import { useFormatter } from '../hooks/useFormatter';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Plus, Edit, Trash2, Repeat, CalendarClock, Bell } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+type Frequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+type EndCondition = 'never' | 'date' | 'count';
+
+interface RecurringRule {
+  id: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  description: string;
+  accountId: string | null;
+  frequency: Frequency;
+  startDate: string;
+  endDate: string | null;
+  occurrences: number | null;
+  mode: 'auto' | 'remind';
+  nextDate: string | null;
+}
+
+interface UpcomingOccurrence {
+  ruleId: string;
+  date: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  description: string;
+  accountId: string | null;
+  mode: 'auto' | 'remind';
+}
+
+interface RecurringProps {
+  session: any;
+}
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+const UPCOMING_DAYS = 30;
+
+const emptyForm = () => ({
+  amount: '',
+  type: 'expense' as 'income' | 'expense',
+  category: '',
+  description: '',
+  accountId: 'none',
+  frequency: 'monthly' as Frequency,
+  startDate: new Date().toISOString().split('T')[0],
+  endCondition: 'never' as EndCondition,
+  endDate: '',
+  occurrences: '',
+  mode: 'auto' as 'auto' | 'remind'
+});
+
+export function Recurring({ session }: RecurringProps) {
+  const { leafCategoriesOfKind, labelFor } = useCategories(session);
+  const { accounts, accountName } = useAccounts(session);
+  const { formatMoney, formatDate } = useFormatter(session);
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingOccurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RecurringRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchRecurring();
+  }, []);
+
+  const fetchRecurring = async () => {
+    try {
+      const headers = { 'Authorization': `Bearer ${session.access_token}` };
+      // Rules are fetched first so that anything due is posted before the upcoming list is built
+      const rulesResponse = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/recurring`, { headers });
+      const upcomingResponse = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/recurring/upcoming?days=${UPCOMING_DAYS}`, { headers });
+
+      if (rulesResponse.ok && upcomingResponse.ok) {
+        setRules(await rulesResponse.json());
+        setUpcoming((await upcomingResponse.json()).upcoming);
+      } else {
+        throw new Error('Failed to fetch recurring transactions');
+      }
+    } catch (error) {
+      console.error('Error fetching recurring transactions:', error);
+      toast.error('Failed to fetch recurring transactions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.amount || !formData.category || !formData.description || !formData.startDate) {
+      toast.error('Please fill in all fields');
+      return;
+    }
+
+    try {
+      const url = editingRule
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/recurring/${editingRule.id}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/recurring`;
+
+      const response = await fetch(url, {
+        method: editingRule ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          amount: parseFloat(formData.amount),
+          type: formData.type,
+          category: formData.category,
+          description: formData.description,
+          accountId: formData.accountId === 'none' ? null : formData.accountId,
+          frequency: formData.frequency,
+          startDate: formData.startDate,
+          endDate: formData.endCondition === 'date' ? formData.endDate : null,
+          occurrences: formData.endCondition === 'count' ? parseInt(formData.occurrences, 10) : null,
+          mode: formData.mode
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save recurring transaction');
+      }
+
+      toast.success(editingRule ? 'Recurring transaction updated!' : 'Recurring transaction created!');
+      setIsDialogOpen(false);
+      setEditingRule(null);
+      setFormData(emptyForm());
+      fetchRecurring();
+    } catch (error: any) {
+      console.error('Error saving recurring transaction:', error);
+      toast.error(error.message || 'Failed to save recurring transaction');
+    }
+  };
+
+  const handleDelete = async (rule: RecurringRule) => {
+    if (!confirm(`Stop "${rule.description}"? Transactions it already posted will be kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/recurring/${rule.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Recurring transaction deleted!');
+        fetchRecurring();
+      } else {
+        throw new Error('Failed to delete recurring transaction');
+      }
+    } catch (error) {
+      console.error('Error deleting recurring transaction:', error);
+      toast.error('Failed to delete recurring transaction');
+    }
+  };
+
+  const startEdit = (rule: RecurringRule) => {
+    setEditingRule(rule);
+    setFormData({
+      amount: rule.amount.toString(),
+      type: rule.type,
+      category: rule.category,
+      description: rule.description,
+      accountId: rule.accountId || 'none',
+      frequency: rule.frequency,
+      startDate: rule.startDate,
+      endCondition: rule.endDate ? 'date' : rule.occurrences ? 'count' : 'never',
+      endDate: rule.endDate || '',
+      occurrences: rule.occurrences?.toString() || '',
+      mode: rule.mode
+    });
+    setIsDialogOpen(true);
+  };
+
+  const describeEnd = (rule: RecurringRule) => {
+    if (rule.endDate) return `until ${formatDate(rule.endDate)}`;
+    if (rule.occurrences) return `${rule.occurrences} times`;
+    return 'no end date';
+  };
+
+  const upcomingIncome = upcoming.filter(o => o.type === 'income').reduce((sum, o) => sum + o.amount, 0);
+  const upcomingExpenses = upcoming.filter(o => o.type === 'expense').reduce((sum, o) => sum + o.amount, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header with Add Button */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Recurring Transactions</h1>
+          <p className="text-gray-600">Schedule rent, salary and subscriptions once</p>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            setEditingRule(null);
+            setFormData(emptyForm());
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Recurring
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>
+                {editingRule ? 'Edit Recurring Transaction' : 'Add Recurring Transaction'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={formData.type}
+                    onValueChange={(value: 'income' | 'expense') => setFormData(prev => ({ ...prev, type: value, category: '' }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="income">Income</SelectItem>
+                      <SelectItem value="expense">Expense</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-amount">Amount</Label>
+                  <Input
+                    id="recurring-amount"
+                    type="number"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                    placeholder="0.00"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="recurring-description">Description</Label>
+                <Input
+                  id="recurring-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="e.g. Rent"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {leafCategoriesOfKind(formData.type).map(category => (
+                        <SelectItem key={category.id} value={category.name}>{labelFor(category)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Account</Label>
+                  <Select
+                    value={formData.accountId}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No account</SelectItem>
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Frequency</Label>
+                  <Select
+                    value={formData.frequency}
+                    onValueChange={(value: Frequency) => setFormData(prev => ({ ...prev, frequency: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-start">Starts</Label>
+                  <Input
+                    id="recurring-start"
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Ends</Label>
+                  <Select
+                    value={formData.endCondition}
+                    onValueChange={(value: EndCondition) => setFormData(prev => ({ ...prev, endCondition: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Never</SelectItem>
+                      <SelectItem value="date">On a date</SelectItem>
+                      <SelectItem value="count">After a number of times</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.endCondition === 'date' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-end">End Date</Label>
+                    <Input
+                      id="recurring-end"
+                      type="date"
+                      value={formData.endDate}
+                      min={formData.startDate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+                      required
+                    />
+                  </div>
+                )}
+
+                {formData.endCondition === 'count' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-occurrences">Occurrences</Label>
+                    <Input
+                      id="recurring-occurrences"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={formData.occurrences}
+                      onChange={(e) => setFormData(prev => ({ ...prev, occurrences: e.target.value }))}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>When Due</Label>
+                <Select
+                  value={formData.mode}
+                  onValueChange={(value: 'auto' | 'remind') => setFormData(prev => ({ ...prev, mode: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Post the transaction automatically</SelectItem>
+                    <SelectItem value="remind">Only remind me</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingRule ? 'Update' : 'Add'} Recurring
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Upcoming */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2" />
+              Upcoming (next {UPCOMING_DAYS} days)
+            </CardTitle>
+            {upcoming.length > 0 && (
+              <div className="text-sm space-x-3">
+                <span className="text-green-600">+{formatMoney(upcomingIncome)}</span>
+                <span className="text-red-600">-{formatMoney(upcomingExpenses)}</span>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ) : upcoming.length > 0 ? (
+            <div className="space-y-2">
+              {upcoming.map(occurrence => (
+                <div key={`${occurrence.ruleId}_${occurrence.date}`} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{occurrence.description}</p>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="secondary">{occurrence.category}</Badge>
+                      {accountName(occurrence.accountId) && (
+                        <span className="text-sm text-gray-500">{accountName(occurrence.accountId)}</span>
+                      )}
+                      {occurrence.mode === 'remind' && (
+                        <Badge variant="outline">
+                          <Bell className="h-3 w-3" />
+                          Reminder
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-bold ${occurrence.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                      {occurrence.type === 'income' ? '+' : '-'}{formatMoney(occurrence.amount)}
+                    </p>
+                    <p className="text-sm text-gray-500">{formatDate(occurrence.date)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Nothing scheduled in the next {UPCOMING_DAYS} days.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Repeat className="h-5 w-5 mr-2" />
+            Schedules ({rules.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+          ) : rules.length > 0 ? (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{rule.description}</p>
+                      <Badge variant="secondary">{FREQUENCY_LABELS[rule.frequency]}</Badge>
+                      <Badge variant="outline">{rule.mode === 'auto' ? 'Auto-post' : 'Remind only'}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {rule.category} · from {formatDate(rule.startDate)}, {describeEnd(rule)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {rule.nextDate ? `Next: ${formatDate(rule.nextDate)}` : 'Finished'}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <p className={`font-bold ${rule.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                      {rule.type === 'income' ? '+' : '-'}{formatMoney(rule.amount)}
+                    </p>
+                    <div className="flex space-x-1">
+                      <Button size="sm" variant="outline" onClick={() => startEdit(rule)} aria-label="Edit recurring transaction">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(rule)} aria-label="Delete recurring transaction">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">
+              <Repeat className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No recurring transactions yet</p>
+              <p className="text-sm">Add your rent, salary or subscriptions to post them automatically.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
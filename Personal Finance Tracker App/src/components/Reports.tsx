@@ -0,0 +1,380 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useFormatter } from '../hooks/useFormatter';
+import { CategorySlice } from '../supabase/functions/_shared/aggregations';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Progress } from './ui/progress';
+import { FileText, Download, ChevronLeft, ChevronRight, Store } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+// Response of GET /reports/statement; amounts are in the base currency
+interface StatementReport {
+  from: string;
+  to: string;
+  totals: {
+    totalIncome: number;
+    totalExpenses: number;
+    balance: number;
+    transactionCount: number;
+  };
+  expenseCategories: CategorySlice[];
+  incomeCategories: CategorySlice[];
+  budgets: {
+    id: string;
+    category: string;
+    period: string;
+    budgeted: number;
+    spent: number;
+    remaining: number;
+  }[];
+  topPayees: {
+    payeeId: string;
+    name: string;
+    total: number;
+    count: number;
+  }[];
+  largestTransactions: {
+    id: string;
+    date: string;
+    description: string;
+    category: string;
+    type: 'income' | 'expense';
+    originalAmount: number;
+    currency: string | null;
+  }[];
+}
+
+interface ReportsProps {
+  session: any;
+}
+
+type RangeMode = 'month' | 'custom';
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+const shiftMonth = (month: string, months: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + months, 1)).toISOString().slice(0, 7);
+};
+
+export function Reports({ session }: ReportsProps) {
+  const { formatMoney, formatDate, formatPercent, locale } = useFormatter(session);
+  const [mode, setMode] = useState<RangeMode>('month');
+  const [month, setMonth] = useState(todayString().slice(0, 7));
+  const [range, setRange] = useState({ from: `${todayString().slice(0, 7)}-01`, to: todayString() });
+  const [report, setReport] = useState<StatementReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+
+  const rangeParams = () => mode === 'month'
+    ? new URLSearchParams({ month })
+    : new URLSearchParams(range);
+
+  const rangeValid = mode === 'month' || (!!range.from && !!range.to && range.from <= range.to);
+
+  useEffect(() => {
+    if (rangeValid) fetchReport();
+  }, [mode, month, range]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/reports/statement?${rangeParams()}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load statement');
+      }
+      setReport(result);
+    } catch (error: any) {
+      console.error('Error fetching statement:', error);
+      toast.error(error.message || 'Failed to load statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/reports/statement/pdf?${rangeParams()}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to generate statement');
+      }
+
+      // Create and download the PDF
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = mode === 'month' ? `statement-${month}.pdf` : `statement-${range.from}-to-${range.to}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('Statement downloaded');
+    } catch (error: any) {
+      console.error('Error downloading statement:', error);
+      toast.error(error.message || 'Failed to generate statement');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const monthLabel = new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(Date.UTC(year, monthIndex - 1, 1)));
+
+  return (
+    <div className="space-y-6">
+      {/* Header with Download Button */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Reports</h1>
+          <p className="text-gray-600">Statements of your income, spending and budgets</p>
+        </div>
+
+        <Button onClick={handleDownload} disabled={downloading || !rangeValid || !report}>
+          <Download className="h-4 w-4 mr-2" />
+          {downloading ? 'Generating...' : 'Download PDF'}
+        </Button>
+      </div>
+
+      {/* Range */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as RangeMode)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="month">Month</SelectItem>
+                  <SelectItem value="custom">Custom range</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {mode === 'month' ? (
+              <div className="flex items-center space-x-1">
+                <Button size="sm" variant="outline" onClick={() => setMonth(shiftMonth(month, -1))} aria-label="Previous month">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="w-40 text-center font-medium">{monthLabel}</span>
+                <Button size="sm" variant="outline" onClick={() => setMonth(shiftMonth(month, 1))} aria-label="Next month">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="report-from">From</Label>
+                  <Input
+                    id="report-from"
+                    type="date"
+                    value={range.from}
+                    onChange={(e) => setRange({ ...range, from: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="report-to">To</Label>
+                  <Input
+                    id="report-to"
+                    type="date"
+                    value={range.to}
+                    onChange={(e) => setRange({ ...range, to: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {!rangeValid && (
+            <p className="text-sm text-red-600 mt-2">The range must end on or after its start.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading && !report ? (
+        <div className="bg-white rounded-lg shadow p-6 animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-3/4 mb-4"></div>
+          <div className="h-8 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      ) : report && (
+        <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">Income</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold text-green-600">{formatMoney(report.totals.totalIncome)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">Expenses</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold text-red-600">{formatMoney(report.totals.totalExpenses)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">Net Change</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className={`text-2xl font-bold ${report.totals.balance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatMoney(report.totals.balance)}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">Transactions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">{report.totals.transactionCount}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Category Breakdown */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <FileText className="h-5 w-5 mr-2" />
+                  Spending by Category
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.expenseCategories.length === 0 ? (
+                  <p className="text-gray-500 text-center py-4">No expenses in this period</p>
+                ) : (
+                  <div className="space-y-3">
+                    {report.expenseCategories.map(slice => (
+                      <div key={slice.id ?? slice.name} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span>{slice.name}</span>
+                          <span className="text-gray-600">
+                            {formatMoney(slice.value)} · {formatPercent(slice.value / report.totals.totalExpenses * 100)}
+                          </span>
+                        </div>
+                        <Progress value={slice.value / report.expenseCategories[0].value * 100} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Budget vs Actual */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Budgets</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.budgets.length === 0 ? (
+                  <p className="text-gray-500 text-center py-4">No budgets set up</p>
+                ) : (
+                  <div className="space-y-3">
+                    {report.budgets.map(budget => (
+                      <div key={budget.id} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span>{budget.category}</span>
+                          <span className={budget.remaining < 0 ? 'text-red-600' : 'text-gray-600'}>
+                            {formatMoney(budget.spent)} of {formatMoney(budget.budgeted)}
+                          </span>
+                        </div>
+                        <Progress value={budget.budgeted > 0 ? Math.min(budget.spent / budget.budgeted * 100, 100) : 100} />
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      Budgeted amounts are prorated by the days each budget period shares with this range.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Top Payees */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Store className="h-5 w-5 mr-2" />
+                Top Payees
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.topPayees.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No spending with known payees in this period</p>
+              ) : (
+                <div className="space-y-3">
+                  {report.topPayees.map(payee => (
+                    <div key={payee.payeeId} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>
+                          {payee.name}
+                          <span className="text-gray-500"> · {payee.count} {payee.count === 1 ? 'transaction' : 'transactions'}</span>
+                        </span>
+                        <span className="text-gray-600">
+                          {formatMoney(payee.total)} · {formatPercent(payee.total / report.totals.totalExpenses * 100)}
+                        </span>
+                      </div>
+                      <Progress value={payee.total / report.topPayees[0].total * 100} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Largest Transactions */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Largest Transactions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.largestTransactions.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No transactions in this period</p>
+              ) : (
+                <div className="space-y-2">
+                  {report.largestTransactions.map(transaction => (
+                    <div key={transaction.id} className="flex items-center justify-between p-2 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{transaction.description || transaction.category}</p>
+                        <p className="text-sm text-gray-500">{transaction.category} · {formatDate(transaction.date)}</p>
+                      </div>
+                      <p className={`font-bold ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                        {transaction.type === 'income' ? '+' : '-'}{formatMoney(transaction.originalAmount, transaction.currency)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
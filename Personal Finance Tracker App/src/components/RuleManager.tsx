@@ -0,0 +1,575 @@
+import React, { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useCategories } from '../hooks/useCategories';
+import { useAccounts } from '../hooks/useAccounts';
+import { useFormatter } from '../hooks/useFormatter';
+import { TagInput } from './TagInput';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, Wand2, Play } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface Rule {
+  id: string;
+  name: string;
+  position: number;
+  enabled: boolean;
+  conditions: {
+    contains: string | null;
+    pattern: string | null;
+    minAmount: number | null;
+    maxAmount: number | null;
+    type: 'income' | 'expense' | null;
+  };
+  actions: {
+    category: string | null;
+    tags: string[];
+    description: string | null;
+    accountId: string | null;
+  };
+}
+
+// Response of POST /rules/apply
+interface RulePreview {
+  updated: number;
+  changes: {
+    id: string;
+    date: string;
+    description: string;
+    amount: number;
+    currency?: string;
+    before: Record<string, any>;
+    after: Record<string, any>;
+    rules: string[];
+  }[];
+}
+
+interface RuleManagerProps {
+  session: any;
+}
+
+const emptyForm = {
+  name: '',
+  contains: '',
+  pattern: '',
+  minAmount: '',
+  maxAmount: '',
+  type: 'none',
+  category: 'none',
+  tags: [] as string[],
+  description: '',
+  accountId: 'none'
+};
+
+// Changes listed in the preview
+const PREVIEW_LIMIT = 50;
+
+export function RuleManager({ session }: RuleManagerProps) {
+  const { categories, labelFor } = useCategories(session);
+  const { accounts } = useAccounts(session);
+  const { formatMoney, formatDate } = useFormatter(session);
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<Rule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/rules`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setRules(await response.json());
+      } else {
+        throw new Error('Failed to fetch rules');
+      }
+    } catch (error) {
+      console.error('Error fetching rules:', error);
+      toast.error('Failed to fetch rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (rule: Rule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      contains: rule.conditions.contains ?? '',
+      pattern: rule.conditions.pattern ?? '',
+      minAmount: rule.conditions.minAmount?.toString() ?? '',
+      maxAmount: rule.conditions.maxAmount?.toString() ?? '',
+      type: rule.conditions.type ?? 'none',
+      category: rule.actions.category ?? 'none',
+      tags: rule.actions.tags,
+      description: rule.actions.description ?? '',
+      accountId: rule.actions.accountId ?? 'none'
+    });
+    setIsDialogOpen(true);
+  };
+
+  const saveRule = async (id: string | null, rule: any) => {
+    const response = await fetch(id
+      ? `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/rules/${id}`
+      : `https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/rules`, {
+      method: id ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(rule),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save rule');
+    }
+    return result;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Please enter a rule name');
+      return;
+    }
+
+    try {
+      await saveRule(editingRule?.id ?? null, {
+        name: formData.name,
+        enabled: editingRule?.enabled ?? true,
+        conditions: {
+          contains: formData.contains,
+          pattern: formData.pattern,
+          minAmount: formData.minAmount,
+          maxAmount: formData.maxAmount,
+          type: formData.type === 'none' ? null : formData.type
+        },
+        actions: {
+          category: formData.category === 'none' ? null : formData.category,
+          tags: formData.tags,
+          description: formData.description,
+          accountId: formData.accountId === 'none' ? null : formData.accountId
+        }
+      });
+
+      toast.success(editingRule ? 'Rule updated!' : 'Rule created!');
+      setIsDialogOpen(false);
+      fetchRules();
+    } catch (error: any) {
+      console.error('Error saving rule:', error);
+      toast.error(error.message || 'Failed to save rule');
+    }
+  };
+
+  const toggleRule = async (rule: Rule, enabled: boolean) => {
+    try {
+      await saveRule(rule.id, { ...rule, enabled });
+      fetchRules();
+    } catch (error: any) {
+      console.error('Error saving rule:', error);
+      toast.error(error.message || 'Failed to save rule');
+    }
+  };
+
+  const moveRule = async (index: number, offset: number) => {
+    const ids = rules.map(rule => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/rules/order`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ ids }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to reorder rules');
+      }
+      setRules(result);
+    } catch (error: any) {
+      console.error('Error reordering rules:', error);
+      toast.error(error.message || 'Failed to reorder rules');
+    }
+  };
+
+  const handleDelete = async (rule: Rule) => {
+    if (!confirm(`Are you sure you want to delete the "${rule.name}" rule?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete rule');
+      }
+
+      toast.success('Rule deleted!');
+      fetchRules();
+    } catch (error: any) {
+      console.error('Error deleting rule:', error);
+      toast.error(error.message || 'Failed to delete rule');
+    }
+  };
+
+  // Runs the rules over existing transactions, first as a dry run for the preview
+  const applyToExisting = async (dryRun: boolean) => {
+    setApplying(true);
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/rules/apply`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ dryRun }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to apply rules');
+      }
+
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        toast.success(`Updated ${result.updated} transactions`);
+        setPreview(null);
+      }
+    } catch (error: any) {
+      console.error('Error applying rules:', error);
+      toast.error(error.message || 'Failed to apply rules');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const accountName = (id: string | null) => id ? accounts.find(account => account.id === id)?.name ?? 'Unknown account' : 'No account';
+
+  const describeValue = (field: string, value: any) => {
+    if (field === 'tags') return value?.length ? value.map((tag: string) => `#${tag}`).join(' ') : 'no tags';
+    if (field === 'accountId') return accountName(value);
+    return value || '—';
+  };
+
+  const describeConditions = (rule: Rule) => {
+    const { contains, pattern, minAmount, maxAmount, type } = rule.conditions;
+    return [
+      type,
+      contains && `contains "${contains}"`,
+      pattern && `matches /${pattern}/`,
+      minAmount !== null && maxAmount !== null
+        ? `amount ${formatMoney(minAmount)}–${formatMoney(maxAmount)}`
+        : minAmount !== null ? `amount ≥ ${formatMoney(minAmount)}` : maxAmount !== null && `amount ≤ ${formatMoney(maxAmount)}`,
+    ].filter(Boolean).join(', ');
+  };
+
+  const describeActions = (rule: Rule) => {
+    const { category, tags, description, accountId } = rule.actions;
+    return [
+      category,
+      ...tags.map(tag => `#${tag}`),
+      description && `rename to "${description}"`,
+      accountId && accountName(accountId),
+    ].filter(Boolean).join(', ');
+  };
+
+  const categoryOptions = formData.type === 'none'
+    ? categories
+    : categories.filter(category => category.kind === formData.type);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Wand2 className="h-5 w-5 mr-2" />
+            Categorization Rules
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => applyToExisting(true)} disabled={applying || rules.length === 0}>
+              <Play className="h-4 w-4 mr-2" />
+              Apply to Existing
+            </Button>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : rules.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No rules yet</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className={`flex items-center justify-between p-2 border rounded-lg ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{index + 1}. {rule.name}</p>
+                  <p className="text-sm text-gray-500 truncate">
+                    If {describeConditions(rule)} → {describeActions(rule)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 shrink-0">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(checked) => toggleRule(rule, checked)}
+                    aria-label="Enable rule"
+                  />
+                  <Button size="sm" variant="outline" onClick={() => moveRule(index, -1)} disabled={index === 0} aria-label="Move rule up">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} aria-label="Move rule down">
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openEdit(rule)} aria-label="Edit rule">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDelete(rule)} aria-label="Delete rule">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-sm text-gray-500 mt-4">
+          Rules run in order on new and imported transactions. Earlier rules win when two set the same field; tags from every matching rule are added.
+        </p>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Uber rides"
+                required
+              />
+            </div>
+
+            <h4 className="text-sm font-semibold text-gray-700">When a transaction matches all of</h4>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-contains">Description contains</Label>
+                <Input
+                  id="rule-contains"
+                  value={formData.contains}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contains: e.target.value }))}
+                  placeholder="e.g. UBER"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-pattern">Description pattern</Label>
+                <Input
+                  id="rule-pattern"
+                  value={formData.pattern}
+                  onChange={(e) => setFormData(prev => ({ ...prev, pattern: e.target.value }))}
+                  placeholder="e.g. ^AMZN\s"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Min amount</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  step="0.01"
+                  value={formData.minAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, minAmount: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Max amount</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  step="0.01"
+                  value={formData.maxAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maxAmount: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, type: value, category: 'none' }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="expense">Expense</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <h4 className="text-sm font-semibold text-gray-700">Then</h4>
+
+            <div className="space-y-2">
+              <Label>Set category</Label>
+              <Select
+                value={formData.category}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Leave unchanged</SelectItem>
+                  {categoryOptions.map(category => (
+                    <SelectItem key={category.id} value={category.name}>
+                      {labelFor(category)}{formData.type === 'none' ? ` (${category.kind})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-tags">Add tags</Label>
+              <TagInput
+                id="rule-tags"
+                value={formData.tags}
+                onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                suggestions={[]}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-description">Rename description to</Label>
+              <Input
+                id="rule-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Leave empty to keep the description"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Set account</Label>
+              <Select
+                value={formData.accountId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Leave unchanged</SelectItem>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingRule ? 'Update' : 'Add'} Rule
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Apply Rules to Existing Transactions</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <div className="space-y-4 text-sm">
+              <p>
+                {preview.updated === 0
+                  ? 'The rules would not change any existing transactions.'
+                  : `The rules would change ${preview.updated} transactions.`}
+              </p>
+              <div className="space-y-2">
+                {preview.changes.slice(0, PREVIEW_LIMIT).map(change => (
+                  <div key={change.id} className="p-2 border rounded-lg space-y-1">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{formatDate(change.date)} · {change.description} · {formatMoney(change.amount, change.currency)}</span>
+                      <span className="space-x-1">
+                        {change.rules.map(name => <Badge key={name} variant="secondary">{name}</Badge>)}
+                      </span>
+                    </div>
+                    {Object.keys(change.after).map(field => (
+                      <p key={field} className="text-gray-600">
+                        {field === 'accountId' ? 'account' : field}: {describeValue(field, change.before[field])} → {describeValue(field, change.after[field])}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              {preview.changes.length > PREVIEW_LIMIT && (
+                <p className="text-gray-500">Showing {PREVIEW_LIMIT} of {preview.changes.length} changes.</p>
+              )}
+              <div className="flex space-x-2 pt-2">
+                <Button type="button" className="flex-1" onClick={() => applyToExisting(false)} disabled={applying || preview.updated === 0}>
+                  {applying ? 'Applying...' : `Apply ${preview.updated} Changes`}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setPreview(null)} disabled={applying}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -7,6 +7,16 @@ import { Label } from './ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Separator } from './ui/separator';
 import { Badge } from './ui/badge';
+import { CategoryManager } from './CategoryManager';
+import { RuleManager } from './RuleManager';
+import { PayeeManager } from './PayeeManager';
+import { AccountManager } from './AccountManager';
+import { CurrencyManager } from './CurrencyManager';
+import { PreferencesManager } from './PreferencesManager';
+import { CsvImportWizard } from './CsvImportWizard';
+import { StatementImportDialog } from './StatementImportDialog';
+import { DuplicateStrategy, DuplicateStrategySelect, describeImportOutcome } from './DuplicateStrategySelect';
+import { ImportPreview, ImportPreviewDialog } from './ImportPreviewDialog';
 import { User, Mail, Calendar, Shield, Trash2, Download, Upload } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 
@@ -30,6 +40,10 @@ export function Settings({ session }: SettingsProps) {
     confirmPassword: ''
   });
 
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: any; preview: ImportPreview } | null>(null);
+  const [importing, setImporting] = useState(false);
+
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -114,6 +128,56 @@ export function Settings({ session }: SettingsProps) {
     }
   };
 
+  const handleExportQif = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/export/qif`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        // Create and download QIF file
+        const blob = new Blob([await response.text()], { type: 'application/qif' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `finance-data-${new Date().toISOString().split('T')[0]}.qif`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        toast.success('QIF file exported successfully!');
+      } else {
+        throw new Error('Failed to export QIF file');
+      }
+    } catch (error) {
+      console.error('Error exporting QIF:', error);
+      toast.error('Failed to export QIF file');
+    }
+  };
+
+  const postImport = async (data: any, dryRun: boolean) => {
+    const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ ...data, duplicateStrategy, dryRun }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      // Files that do not match their export format come back with the location of each problem
+      const issues = (result.issues || []).slice(0, 3).map((issue: any) => `${issue.path} ${issue.message}`);
+      throw new Error([result.error || 'Failed to import data', ...issues].join('; '));
+    }
+    return result;
+  };
+
+  // Files are validated with a dry run first, and only imported once the preview is accepted
   const handleImportData = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -122,24 +186,11 @@ export function Settings({ session }: SettingsProps) {
     reader.onload = async (event) => {
       try {
         const jsonData = JSON.parse(event.target?.result as string);
-        
-        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${session.access_token}`,
-          },
-          body: JSON.stringify(jsonData),
-        });
-
-        if (response.ok) {
-          toast.success('Data imported successfully!');
-        } else {
-          throw new Error('Failed to import data');
-        }
-      } catch (error) {
-        console.error('Error importing data:', error);
-        toast.error('Failed to import data. Please check the file format.');
+        const preview = await postImport(jsonData, true);
+        setPendingImport({ fileName: file.name, data: jsonData, preview });
+      } catch (error: any) {
+        console.error('Error previewing import:', error);
+        toast.error(error instanceof SyntaxError ? 'Failed to import data. Please check the file format.' : error.message || 'Failed to import data');
       }
     };
 
@@ -147,6 +198,22 @@ export function Settings({ session }: SettingsProps) {
     e.target.value = ''; // Reset input
   };
 
+  const handleAcceptImport = async () => {
+    if (!pendingImport) return;
+
+    setImporting(true);
+    try {
+      const result = await postImport(pendingImport.data, false);
+      toast.success(`Data imported: transactions ${describeImportOutcome(result.outcome.transactions)}; budgets ${describeImportOutcome(result.outcome.budgets)}`);
+      setPendingImport(null);
+    } catch (error: any) {
+      console.error('Error importing data:', error);
+      toast.error(error.message || 'Failed to import data');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     const confirmDelete = confirm(
       'Are you sure you want to delete your account? This action cannot be undone and will delete all your financial data.'
@@ -286,17 +353,40 @@ export function Settings({ session }: SettingsProps) {
         </CardContent>
       </Card>
 
+      {/* Preferences */}
+      <PreferencesManager session={session} />
+
+      {/* Accounts */}
+      <AccountManager session={session} />
+
+      {/* Categories */}
+      <CategoryManager session={session} />
+
+      {/* Categorization Rules */}
+      <RuleManager session={session} />
+
+      {/* Payees */}
+      <PayeeManager session={session} />
+
+      {/* Currencies */}
+      <CurrencyManager session={session} />
+
       {/* Data Management */}
       <Card>
         <CardHeader>
           <CardTitle>Data Management</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex flex-col sm:flex-row gap-3">
+          <div className="flex flex-col sm:flex-row sm:flex-wrap gap-3">
             <Button onClick={handleExportData} variant="outline" className="flex-1">
               <Download className="h-4 w-4 mr-2" />
               Export Data
             </Button>
+
+            <Button onClick={handleExportQif} variant="outline" className="flex-1">
+              <Download className="h-4 w-4 mr-2" />
+              Export QIF
+            </Button>
             
             <div className="flex-1">
               <input
@@ -315,10 +405,27 @@ export function Settings({ session }: SettingsProps) {
                 Import Data
               </Button>
             </div>
+
+            <CsvImportWizard session={session} />
+
+            <StatementImportDialog session={session} />
           </div>
+
+          <div className="sm:max-w-xs">
+            <DuplicateStrategySelect value={duplicateStrategy} onChange={setDuplicateStrategy} />
+          </div>
+
+          <ImportPreviewDialog
+            session={session}
+            fileName={pendingImport?.fileName || ''}
+            preview={pendingImport?.preview || null}
+            importing={importing}
+            onAccept={handleAcceptImport}
+            onCancel={() => setPendingImport(null)}
+          />
           
           <p className="text-sm text-gray-500">
-            Export your financial data as JSON or import previously exported data.
+            Export your financial data as JSON or import previously exported data; imports are checked and previewed before anything is saved. Transactions that match existing ones by date, amount and description (or by bank transaction id) are treated as duplicates. Bank statements can be imported from CSV with a saved column mapping per bank, or from OFX/QFX downloads. QIF files from Quicken or GnuCash can be imported and exported.
           </p>
         </CardContent>
       </Card>
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Category } from '../hooks/useCategories';
+import { CategoryIcon } from './CategoryIcon';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, X } from 'lucide-react';
+
+export interface SplitDraft {
+  category: string;
+  amount: string;
+  memo: string;
+}
+
+interface SplitEditorProps {
+  value: SplitDraft[];
+  onChange: (splits: SplitDraft[]) => void;
+  total: number;
+  categories: Category[];
+  labelFor: (category: Category) => string;
+  formatMoney: (amount: number) => string;
+}
+
+export const emptySplit = (): SplitDraft => ({ category: '', amount: '', memo: '' });
+
+// Remaining amount to allocate, in cents to avoid floating point drift
+export const unallocatedAmount = (splits: SplitDraft[], total: number) =>
+  (Math.round(total * 100) - splits.reduce((sum, split) => sum + Math.round((parseFloat(split.amount) || 0) * 100), 0)) / 100;
+
+export function SplitEditor({ value, onChange, total, categories, labelFor, formatMoney }: SplitEditorProps) {
+  const remaining = unallocatedAmount(value, total);
+
+  const updateLine = (index: number, changes: Partial<SplitDraft>) => {
+    onChange(value.map((split, i) => i === index ? { ...split, ...changes } : split));
+  };
+
+  const removeLine = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((split, index) => (
+        <div key={index} className="grid grid-cols-[1fr_5.5rem_auto] gap-2">
+          <Select value={split.category} onValueChange={(category) => updateLine(index, { category })}>
+            <SelectTrigger aria-label={`Split line ${index + 1} category`}>
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map(category => (
+                <SelectItem key={category.id} value={category.name}>
+                  <CategoryIcon icon={category.icon} color={category.color} />
+                  {labelFor(category)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            aria-label={`Split line ${index + 1} amount`}
+            value={split.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            placeholder="0.00"
+          />
+          <Button type="button" size="sm" variant="ghost" onClick={() => removeLine(index)} aria-label={`Remove split line ${index + 1}`}>
+            <X className="h-4 w-4" />
+          </Button>
+          <Input
+            className="col-span-2"
+            aria-label={`Split line ${index + 1} memo`}
+            value={split.memo}
+            onChange={(e) => updateLine(index, { memo: e.target.value })}
+            placeholder="Memo (optional)"
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...value, { ...emptySplit(), amount: remaining > 0 ? remaining.toFixed(2) : '' }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add line
+        </Button>
+        <span className={`text-sm ${remaining === 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {remaining === 0 ? 'Fully allocated' : `${formatMoney(Math.abs(remaining))} ${remaining > 0 ? 'left to allocate' : 'over the amount'}`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { useAccounts } from '../hooks/useAccounts';
+import { useFormatter } from '../hooks/useFormatter';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { DuplicateStrategy, DuplicateStrategySelect, ImportOutcome, describeImportOutcome } from './DuplicateStrategySelect';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { FileText, Upload } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface StatementImportDialogProps {
+  session: any;
+}
+
+interface StatementSummary {
+  accountNumber: string | null;
+  currency: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  transactions: number;
+  ledgerBalance: { amount: number; date: string | null } | null;
+  difference: number | null;
+}
+
+interface ImportResult {
+  imported: number;
+  outcome: ImportOutcome;
+  ignored?: number;
+  categoriesCreated?: number;
+  statements?: StatementSummary[];
+}
+
+// QIF dates carry no indication of whether they are month-first or day-first
+type DateOrder = 'MDY' | 'DMY';
+
+const isQifFile = (fileName: string) => fileName.toLowerCase().endsWith('.qif');
+
+export function StatementImportDialog({ session }: StatementImportDialogProps) {
+  const { accounts, refresh: refreshAccounts } = useAccounts(session);
+  const { formatMoney, formatDate } = useFormatter(session);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [accountId, setAccountId] = useState('none');
+  const [dateOrder, setDateOrder] = useState<DateOrder>('MDY');
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      setImporting(true);
+      try {
+        const format = isQifFile(file.name) ? 'qif' : 'ofx';
+        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/import/${format}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            content: event.target?.result as string,
+            accountId: accountId === 'none' ? null : accountId,
+            dateOrder,
+            duplicateStrategy
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to import statement');
+        }
+
+        setResult(data);
+        toast.success(`Imported ${data.imported} transactions (${describeImportOutcome(data.outcome)})`);
+        refreshAccounts();
+      } catch (error: any) {
+        console.error('Error importing statement:', error);
+        toast.error(error.message || 'Failed to import statement');
+      } finally {
+        setImporting(false);
+      }
+    };
+
+    reader.readAsText(file);
+    e.target.value = ''; // Reset input
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={(open) => {
+      setIsDialogOpen(open);
+      if (!open) setResult(null);
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1">
+          <FileText className="h-4 w-4 mr-2" />
+          Import OFX/QFX/QIF
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Import OFX, QFX or QIF File</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Import Into Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No account</SelectItem>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">
+              OFX/QFX statements are reconciled against this account. QIF files that name their
+              accounts are matched to accounts with the same name.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>QIF Date Order</Label>
+            <Select value={dateOrder} onValueChange={(value) => setDateOrder(value as DateOrder)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="MDY">Month first (MM/DD/YYYY)</SelectItem>
+                <SelectItem value="DMY">Day first (DD/MM/YYYY)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DuplicateStrategySelect value={duplicateStrategy} onChange={setDuplicateStrategy} />
+
+          <input
+            type="file"
+            accept=".ofx,.qfx,.qif"
+            onChange={handleFileChange}
+            style={{ display: 'none' }}
+            id="statement-import-file"
+          />
+          <Button
+            type="button"
+            className="w-full"
+            disabled={importing}
+            onClick={() => document.getElementById('statement-import-file')?.click()}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importing ? 'Importing...' : 'Choose Statement File'}
+          </Button>
+
+          {result && (
+            <div className="space-y-3 text-sm">
+              <p>
+                {result.imported} transactions imported ({describeImportOutcome(result.outcome)})
+                {!!result.ignored && `, ${result.ignored} entries ignored`}
+                {!!result.categoriesCreated && `, ${result.categoriesCreated} categories created`}.
+              </p>
+              {result.statements?.map((statement, index) => (
+                <div key={index} className="p-3 border rounded-lg space-y-1">
+                  <p className="font-medium">
+                    Account {statement.accountNumber ? `••${statement.accountNumber.slice(-4)}` : 'unknown'}
+                    {statement.startDate && statement.endDate && ` · ${formatDate(statement.startDate)} – ${formatDate(statement.endDate)}`}
+                  </p>
+                  {statement.ledgerBalance && (
+                    <p className="text-gray-600">
+                      Ledger balance {formatMoney(statement.ledgerBalance.amount, statement.currency)}
+                      {statement.ledgerBalance.date && ` as of ${formatDate(statement.ledgerBalance.date)}`}
+                    </p>
+                  )}
+                  {statement.difference !== null && (
+                    <p className={Math.abs(statement.difference) < 0.005 ? 'text-green-600' : 'text-yellow-700'}>
+                      {Math.abs(statement.difference) < 0.005
+                        ? 'The account balance matches the statement.'
+                        : `The account balance is off by ${formatMoney(statement.difference)}.`}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { X } from 'lucide-react';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+  placeholder?: string;
+}
+
+// Same normalization the server applies, so chips show what will be stored
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-').slice(0, 40);
+
+export function TagInput({ id, value, onChange, suggestions, placeholder = 'Add a tag and press Enter' }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const matchingSuggestions = suggestions
+    .filter(tag => !value.includes(tag) && tag.includes(normalizeTag(draft)))
+    .slice(0, 6);
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setDraft('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="outline" className="gap-1">
+              #{tag}
+              <button type="button" onClick={() => removeTag(tag)} aria-label={`Remove ${tag}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => {
+            // Delay so a click on a suggestion registers before the list closes
+            setTimeout(() => setShowSuggestions(false), 150);
+            if (draft) addTag(draft);
+          }}
+          placeholder={placeholder}
+          autoComplete="off"
+        />
+        {showSuggestions && matchingSuggestions.length > 0 && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-white shadow-md">
+            {matchingSuggestions.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
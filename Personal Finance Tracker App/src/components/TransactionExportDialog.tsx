@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { projectId } from '../utils/supabase/info';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  ExportColumn,
+  ExportFormat,
+  TRANSACTION_EXPORT_COLUMNS
+} from '../supabase/functions/_shared/transaction_export';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+interface TransactionExportDialogProps {
+  session: any;
+  // Filter parameters of the Transactions page, as sent to GET /transactions
+  filters: URLSearchParams;
+  total: number;
+}
+
+export function TransactionExportDialog({ session, filters, total }: TransactionExportDialogProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [exporting, setExporting] = useState(false);
+
+  const toggleColumn = (key: ExportColumn, checked: boolean) => {
+    // Columns keep the order of the column list rather than the order they were ticked in
+    setColumns(prev => TRANSACTION_EXPORT_COLUMNS
+      .map(column => column.key)
+      .filter(column => column === key ? checked : prev.includes(column)));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams(filters);
+      params.set('format', format);
+      params.set('columns', columns.join(','));
+
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/export/transactions?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to export transactions');
+      }
+
+      // Create and download the spreadsheet
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `transactions-${new Date().toISOString().split('T')[0]}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success(`Exported ${total} transactions`);
+      setIsDialogOpen(false);
+    } catch (error: any) {
+      console.error('Error exporting transactions:', error);
+      toast.error(error.message || 'Failed to export transactions');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export Transactions</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Exports the {total} transactions that match the current search, filters and date range.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">
+              CSV numbers use the number format of your locale preference.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {TRANSACTION_EXPORT_COLUMNS.map(column => (
+                <label key={column.key} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={columns.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <span>{column.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-2 pt-2">
+            <Button type="button" className="flex-1" onClick={handleExport} disabled={exporting || columns.length === 0 || total === 0}>
+              {exporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
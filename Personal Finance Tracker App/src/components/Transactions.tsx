@@ -1,5 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { useCategories } from '../hooks/useCategories';
+import { useAccounts } from '../hooks/useAccounts';
+import { usePayees } from '../hooks/usePayees';
+import { useFormatter } from '../hooks/useFormatter';
+import { COMMON_CURRENCIES } from '../supabase/functions/_shared/currency';
+import { CategoryIcon } from './CategoryIcon';
+import { TagInput } from './TagInput';
+import { TransactionExportDialog } from './TransactionExportDialog';
+import { AttachmentDialog } from './AttachmentDialog';
+import { SplitEditor, SplitDraft, emptySplit, unallocatedAmount } from './SplitEditor';
+import { SplitLine } from '../supabase/functions/_shared/splits';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -8,80 +19,287 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Textarea } from './ui/textarea';
-import { Plus, Edit, Trash2, TrendingUp, TrendingDown, Filter, Search } from 'lucide-react';
+import { Switch } from './ui/switch';
+import { Plus, Edit, Trash2, TrendingUp, TrendingDown, Filter, Search, Hash, Landmark, ArrowLeftRight, Repeat, Store, Paperclip } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 
+type TransactionType = 'income' | 'expense' | 'transfer';
+
 interface Transaction {
   id: string;
   amount: number;
-  type: 'income' | 'expense';
+  currency?: string;
+  type: TransactionType;
   category: string;
   description: string;
   date: string;
+  tags?: string[];
+  splits?: SplitLine[];
+  accountId?: string | null;
+  payeeId?: string | null;
+  counterpartAccountId?: string | null;
+  transferDirection?: 'in' | 'out';
+  recurringId?: string;
+  runningBalance?: number;
+  attachmentCount?: number;
+}
+
+interface CategorySuggestion {
+  category: string;
+  probability: number;
 }
 
 interface TransactionsProps {
   session: any;
 }
 
-const CATEGORIES = {
-  income: ['Salary', 'Freelance', 'Investment', 'Business', 'Gift', 'Other'],
-  expense: ['Food', 'Transportation', 'Housing', 'Healthcare', 'Entertainment', 'Shopping', 'Utilities', 'Other']
-};
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS = [
+  { value: 'date:desc', label: 'Newest first' },
+  { value: 'date:asc', label: 'Oldest first' },
+  { value: 'amount:desc', label: 'Largest amount' },
+  { value: 'amount:asc', label: 'Smallest amount' },
+  { value: 'description:asc', label: 'Description A-Z' },
+];
 
 export function Transactions({ session }: TransactionsProps) {
+  const { categories, leafCategoriesOfKind, labelFor } = useCategories(session);
+  const { accounts, accountName, refresh: refreshAccounts } = useAccounts(session);
+  const { payees, payeeName, refresh: refreshPayees } = usePayees(session);
+  const { baseCurrency, settings, toBase, formatMoney, formatDate, formatPercent } = useFormatter(session);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [attachingTransaction, setAttachingTransaction] = useState<Transaction | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+  const [filterType, setFilterType] = useState<'all' | TransactionType>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterTag, setFilterTag] = useState<string>('all');
+  const [filterAccount, setFilterAccount] = useState<string>('all');
+  const [filterPayee, setFilterPayee] = useState<string>('all');
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [dateRange, setDateRange] = useState({ from: '', to: '' });
+  const [amountRange, setAmountRange] = useState({ min: '', max: '' });
+  const [sortOption, setSortOption] = useState('date:desc');
+  const latestRequest = useRef(0);
+  // Category suggested for a new transaction's description, and whether the user picked the category themselves.
+  // Both refs are read when a suggestion arrives, after the form may have changed.
+  const [suggestion, setSuggestion] = useState<CategorySuggestion | null>(null);
+  const categoryChosen = useRef(false);
+  const latestSuggestion = useRef(0);
   
   const [formData, setFormData] = useState({
     amount: '',
-    type: 'expense' as 'income' | 'expense',
+    currency: '',
+    type: 'expense' as TransactionType,
     category: '',
     description: '',
-    date: new Date().toISOString().split('T')[0]
+    date: new Date().toISOString().split('T')[0],
+    tags: [] as string[],
+    accountId: 'none',
+    fromAccountId: '',
+    toAccountId: '',
+    isSplit: false,
+    splits: [] as SplitDraft[]
   });
 
   useEffect(() => {
-    fetchTransactions();
+    fetchTags();
   }, []);
 
-  const fetchTransactions = async () => {
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [debouncedSearch, filterType, filterCategory, filterTag, filterAccount, filterPayee, dateRange, amountRange, sortOption]);
+
+  // Suggest a category from the user's past transactions while the description is typed
+  useEffect(() => {
+    const requestId = ++latestSuggestion.current;
+    const description = formData.description.trim();
+    if (!isAddDialogOpen || editingTransaction || formData.type === 'transfer' || formData.isSplit || description.length < 3) {
+      setSuggestion(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => fetchSuggestion(description, formData.type, requestId), 400);
+    return () => clearTimeout(timeout);
+  }, [formData.description, formData.type, formData.isSplit, isAddDialogOpen, editingTransaction]);
+
+  // Search, filters and sort order, shared by the list and the spreadsheet export
+  const filterParams = () => {
+    const [sort, order] = sortOption.split(':');
+    const params = new URLSearchParams({ sort, order });
+
+    if (debouncedSearch.trim()) params.set('search', debouncedSearch.trim());
+    if (filterType !== 'all') params.set('type', filterType);
+    if (filterCategory !== 'all') params.set('category', filterCategory);
+    if (filterTag !== 'all') params.set('tag', filterTag);
+    if (filterAccount !== 'all') params.set('accountId', filterAccount);
+    if (filterPayee !== 'all') params.set('payeeId', filterPayee);
+    if (dateRange.from) params.set('from', dateRange.from);
+    if (dateRange.to) params.set('to', dateRange.to);
+    if (amountRange.min) params.set('minAmount', amountRange.min);
+    if (amountRange.max) params.set('maxAmount', amountRange.max);
+
+    return params;
+  };
+
+  const buildQuery = (cursor?: string) => {
+    const params = filterParams();
+    params.set('limit', String(PAGE_SIZE));
+    if (cursor) params.set('cursor', cursor);
+
+    return params.toString();
+  };
+
+  const fetchTransactions = async (cursor?: string) => {
+    const requestId = ++latestRequest.current;
+    if (cursor) {
+      setLoadingMore(true);
+    }
+
     try {
-      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/transactions`, {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/transactions?${buildQuery(cursor)}`, {
         headers: {
           'Authorization': `Bearer ${session.access_token}`,
         },
       });
 
+      // Ignore responses that were overtaken by a newer filter change
+      if (requestId !== latestRequest.current) {
+        return;
+      }
+
       if (response.ok) {
         const data = await response.json();
-        setTransactions(data);
+        setTransactions(prev => cursor ? [...prev, ...data.transactions] : data.transactions);
+        setTotal(data.total);
+        setNextCursor(data.nextCursor);
+      } else {
+        throw new Error('Failed to fetch transactions');
       }
     } catch (error) {
       console.error('Error fetching transactions:', error);
       toast.error('Failed to fetch transactions');
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/tags`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data: { name: string }[] = await response.json();
+        setTagSuggestions(data.map(tag => tag.name));
+      }
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  };
+
+  const fetchSuggestion = async (description: string, type: TransactionType, requestId: number) => {
+    try {
+      const params = new URLSearchParams({ description, type });
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/category-suggestions?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const { suggestions, autoFill } = await response.json();
+        // The description or type changed while this request was in flight
+        if (requestId !== latestSuggestion.current) {
+          return;
+        }
+
+        const best: CategorySuggestion | null = suggestions[0] ?? null;
+        setSuggestion(best);
+        // Confident suggestions fill in the category unless the user already picked one
+        if (best && autoFill && !categoryChosen.current) {
+          setFormData(prev => ({ ...prev, category: best.category }));
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching category suggestion:', error);
+    }
+  };
+
+  // Tells the server whether the suggested category was kept, so later suggestions improve
+  const sendSuggestionFeedback = async (shown: CategorySuggestion, description: string, type: TransactionType, category: string) => {
+    try {
+      await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/category-suggestions/feedback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ description, type, category: shown.category, accepted: shown.category === category }),
+      });
+    } catch (error) {
+      console.error('Error sending suggestion feedback:', error);
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.amount || !formData.category || !formData.description) {
+    if (formData.type === 'transfer') {
+      if (!formData.amount || !formData.fromAccountId || !formData.toAccountId) {
+        toast.error('Please fill in the amount and both accounts');
+        return;
+      }
+      if (formData.fromAccountId === formData.toAccountId) {
+        toast.error('Please choose two different accounts');
+        return;
+      }
+    } else if (formData.isSplit) {
+      if (!formData.amount || !formData.description || formData.splits.some(split => !split.category || !split.amount)) {
+        toast.error('Please fill in all fields and every split line');
+        return;
+      }
+      if (formData.splits.length < 2) {
+        toast.error('A split needs at least two lines');
+        return;
+      }
+      if (unallocatedAmount(formData.splits, parseFloat(formData.amount)) !== 0) {
+        toast.error('Split lines must add up to the transaction amount');
+        return;
+      }
+    } else if (!formData.amount || !formData.category || !formData.description) {
       toast.error('Please fill in all fields');
       return;
     }
 
     try {
+      const { isSplit, splits, ...fields } = formData;
       const transactionData = {
-        ...formData,
-        amount: parseFloat(formData.amount)
+        ...fields,
+        amount: parseFloat(formData.amount),
+        currency: formData.currency || baseCurrency,
+        accountId: formData.accountId === 'none' ? null : formData.accountId,
+        splits: isSplit && formData.type !== 'transfer'
+          ? splits.map(split => ({ category: split.category, amount: parseFloat(split.amount), memo: split.memo }))
+          : []
       };
 
       const url = editingTransaction 
@@ -100,17 +318,24 @@ export function Transactions({ session }: TransactionsProps) {
       });
 
       if (response.ok) {
+        if (suggestion && !editingTransaction && !isSplit) {
+          sendSuggestionFeedback(suggestion, formData.description, formData.type, formData.category);
+        }
         toast.success(editingTransaction ? 'Transaction updated!' : 'Transaction added!');
         setIsAddDialogOpen(false);
         setEditingTransaction(null);
         resetForm();
         fetchTransactions();
+        fetchTags();
+        refreshAccounts();
+        refreshPayees();
       } else {
-        throw new Error('Failed to save transaction');
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to save transaction');
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving transaction:', error);
-      toast.error('Failed to save transaction');
+      toast.error(error.message || 'Failed to save transaction');
     }
   };
 
@@ -130,6 +355,7 @@ export function Transactions({ session }: TransactionsProps) {
       if (response.ok) {
         toast.success('Transaction deleted!');
         fetchTransactions();
+        refreshAccounts();
       } else {
         throw new Error('Failed to delete transaction');
       }
@@ -140,12 +366,21 @@ export function Transactions({ session }: TransactionsProps) {
   };
 
   const resetForm = () => {
+    setSuggestion(null);
+    categoryChosen.current = false;
     setFormData({
       amount: '',
+      currency: '',
       type: 'expense',
       category: '',
       description: '',
-      date: new Date().toISOString().split('T')[0]
+      date: new Date().toISOString().split('T')[0],
+      tags: [],
+      accountId: 'none',
+      fromAccountId: '',
+      toAccountId: '',
+      isSplit: false,
+      splits: []
     });
   };
 
@@ -153,24 +388,30 @@ export function Transactions({ session }: TransactionsProps) {
     setEditingTransaction(transaction);
     setFormData({
       amount: transaction.amount.toString(),
+      currency: transaction.currency || baseCurrency,
       type: transaction.type,
       category: transaction.category,
       description: transaction.description,
-      date: transaction.date
+      date: transaction.date,
+      tags: transaction.tags || [],
+      accountId: transaction.accountId || 'none',
+      // Either leg of a transfer can be edited; map it back to source and destination
+      fromAccountId: (transaction.transferDirection === 'in' ? transaction.counterpartAccountId : transaction.accountId) || '',
+      toAccountId: (transaction.transferDirection === 'in' ? transaction.accountId : transaction.counterpartAccountId) || '',
+      isSplit: !!transaction.splits?.length,
+      splits: (transaction.splits || []).map(split => ({
+        category: split.category,
+        amount: split.amount.toString(),
+        memo: split.memo || ''
+      }))
     });
     setIsAddDialogOpen(true);
   };
 
-  const filteredTransactions = transactions.filter(transaction => {
-    const matchesSearch = transaction.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         transaction.category.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = filterType === 'all' || transaction.type === filterType;
-    const matchesCategory = filterCategory === 'all' || transaction.category === filterCategory;
-    
-    return matchesSearch && matchesType && matchesCategory;
-  });
-
-  const allCategories = [...new Set(transactions.map(t => t.category))];
+  const allCategories = [...new Set(categories.map(c => c.name))].sort();
+  const currencyOptions = [...new Set([baseCurrency, ...Object.keys(settings.rates), ...COMMON_CURRENCIES, formData.currency].filter(Boolean))];
+  const categoryFor = (transaction: Transaction, name = transaction.category) =>
+    categories.find(c => c.kind === transaction.type && c.name === name);
 
   return (
     <div className="space-y-6">
@@ -181,113 +422,269 @@ export function Transactions({ session }: TransactionsProps) {
           <p className="text-gray-600">Manage your income and expenses</p>
         </div>
         
-        <Dialog open={isAddDialogOpen} onOpenChange={(open) => {
-          setIsAddDialogOpen(open);
-          if (!open) {
-            setEditingTransaction(null);
-            resetForm();
-          }
-        }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Transaction
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
-            <DialogHeader>
-              <DialogTitle>
-                {editingTransaction ? 'Edit Transaction' : 'Add New Transaction'}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          <TransactionExportDialog session={session} filters={filterParams()} total={total} />
+
+          <Dialog open={isAddDialogOpen} onOpenChange={(open) => {
+            setIsAddDialogOpen(open);
+            if (!open) {
+              setEditingTransaction(null);
+              resetForm();
+            }
+          }}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Transaction
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingTransaction ? 'Edit Transaction' : 'Add New Transaction'}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="type">Type</Label>
+                    <Select 
+                      value={formData.type} 
+                      onValueChange={(value: TransactionType) => {
+                        categoryChosen.current = false;
+                        setFormData(prev => ({ ...prev, type: value, category: '', splits: prev.splits.map(split => ({ ...split, category: '' })) }));
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(!editingTransaction || editingTransaction.type !== 'transfer') && (
+                          <>
+                            <SelectItem value="income">Income</SelectItem>
+                            <SelectItem value="expense">Expense</SelectItem>
+                          </>
+                        )}
+                        {(!editingTransaction || editingTransaction.type === 'transfer') && accounts.length >= 2 && (
+                          <SelectItem value="transfer">Transfer</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Amount</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="amount"
+                        type="number"
+                        step="0.01"
+                        value={formData.amount}
+                        onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                        placeholder="0.00"
+                        required
+                      />
+                      <Select
+                        value={formData.currency || baseCurrency}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+                      >
+                        <SelectTrigger className="w-24" aria-label="Currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {currencyOptions.map(code => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+
+                {formData.type === 'transfer' ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="fromAccount">From Account</Label>
+                      <Select
+                        value={formData.fromAccountId}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, fromAccountId: value }))}
+                      >
+                        <SelectTrigger id="fromAccount">
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {accounts.map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="toAccount">To Account</Label>
+                      <Select
+                        value={formData.toAccountId}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, toAccountId: value }))}
+                      >
+                        <SelectTrigger id="toAccount">
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {accounts.map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="category">Category</Label>
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="split" className="text-sm text-gray-500">Split</Label>
+                        <Switch
+                          id="split"
+                          checked={formData.isSplit}
+                          onCheckedChange={(checked) => setFormData(prev => ({
+                            ...prev,
+                            isSplit: checked,
+                            category: '',
+                            // Start a new split from the current category and amount
+                            splits: checked && prev.splits.length === 0
+                              ? [{ ...emptySplit(), category: prev.category, amount: prev.amount }, emptySplit()]
+                              : prev.splits
+                          }))}
+                        />
+                      </div>
+                    </div>
+                    {formData.isSplit ? (
+                      <SplitEditor
+                        value={formData.splits}
+                        formatMoney={(amount) => formatMoney(amount, formData.currency)}
+                        onChange={(splits) => setFormData(prev => ({ ...prev, splits }))}
+                        total={parseFloat(formData.amount) || 0}
+                        categories={leafCategoriesOfKind(formData.type)}
+                        labelFor={labelFor}
+                      />
+                    ) : (
+                      <>
+                        <Select 
+                          value={formData.category} 
+                          onValueChange={(value) => {
+                            categoryChosen.current = true;
+                            setFormData(prev => ({ ...prev, category: value }));
+                          }}
+                        >
+                          <SelectTrigger id="category">
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {leafCategoriesOfKind(formData.type).map(category => (
+                              <SelectItem key={category.id} value={category.name}>
+                                <CategoryIcon icon={category.icon} color={category.color} />
+                                {labelFor(category)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {suggestion && (
+                          formData.category === suggestion.category ? (
+                            <p className="text-sm text-gray-500">
+                              Suggested from your past transactions ({formatPercent(suggestion.probability * 100, 0)} match)
+                            </p>
+                          ) : (
+                            <p className="text-sm text-gray-500">
+                              Suggested:{' '}
+                              <button
+                                type="button"
+                                className="text-blue-600 hover:underline"
+                                onClick={() => {
+                                  categoryChosen.current = true;
+                                  setFormData(prev => ({ ...prev, category: suggestion.category }));
+                                }}
+                              >
+                                {suggestion.category}
+                              </button>
+                              {' '}({formatPercent(suggestion.probability * 100, 0)} match)
+                            </p>
+                          )
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
-                  <Label htmlFor="type">Type</Label>
-                  <Select 
-                    value={formData.type} 
-                    onValueChange={(value: 'income' | 'expense') => 
-                      setFormData(prev => ({ ...prev, type: value, category: '' }))
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="income">Income</SelectItem>
-                      <SelectItem value="expense">Expense</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder={formData.type === 'transfer' ? 'Optional, e.g. Monthly savings' : 'Enter transaction description'}
+                    required={formData.type !== 'transfer'}
+                  />
                 </div>
-                
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Date</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                      required
+                    />
+                  </div>
+
+                  {formData.type !== 'transfer' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="account">Account</Label>
+                      <Select
+                        value={formData.accountId}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value }))}
+                      >
+                        <SelectTrigger id="account">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No account</SelectItem>
+                          {accounts.map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="amount">Amount</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                    placeholder="0.00"
-                    required
+                  <Label htmlFor="tags">Tags</Label>
+                  <TagInput
+                    id="tags"
+                    value={formData.tags}
+                    onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                    suggestions={tagSuggestions}
                   />
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
-                <Select 
-                  value={formData.category} 
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {CATEGORIES[formData.type].map(category => (
-                      <SelectItem key={category} value={category}>{category}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="Enter transaction description"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="date">Date</Label>
-                <Input
-                  id="date"
-                  type="date"
-                  value={formData.date}
-                  onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
-                  required
-                />
-              </div>
-
-              <div className="flex justify-end space-x-2 pt-4">
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => setIsAddDialogOpen(false)}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingTransaction ? 'Update' : 'Add'} Transaction
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    onClick={() => setIsAddDialogOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingTransaction ? 'Update' : 'Add'} Transaction
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Filters */}
@@ -313,6 +710,7 @@ export function Transactions({ session }: TransactionsProps) {
                 <SelectItem value="all">All Types</SelectItem>
                 <SelectItem value="income">Income</SelectItem>
                 <SelectItem value="expense">Expense</SelectItem>
+                <SelectItem value="transfer">Transfer</SelectItem>
               </SelectContent>
             </Select>
 
@@ -327,6 +725,95 @@ export function Transactions({ session }: TransactionsProps) {
                 ))}
               </SelectContent>
             </Select>
+
+            {accounts.length > 0 && (
+              <Select value={filterAccount} onValueChange={setFilterAccount}>
+                <SelectTrigger className="w-full sm:w-40">
+                  <Landmark className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="All Accounts" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {payees.length > 0 && (
+              <Select value={filterPayee} onValueChange={setFilterPayee}>
+                <SelectTrigger className="w-full sm:w-40">
+                  <Store className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="All Payees" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Payees</SelectItem>
+                  {payees.map(payee => (
+                    <SelectItem key={payee.id} value={payee.id}>{payee.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select value={filterTag} onValueChange={setFilterTag}>
+              <SelectTrigger className="w-full sm:w-40">
+                <Hash className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="All Tags" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Tags</SelectItem>
+                {tagSuggestions.map(tag => (
+                  <SelectItem key={tag} value={tag}>#{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4 mt-4">
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                aria-label="From date"
+                value={dateRange.from}
+                onChange={(e) => setDateRange(prev => ({ ...prev, from: e.target.value }))}
+              />
+              <span className="text-gray-500 text-sm">to</span>
+              <Input
+                type="date"
+                aria-label="To date"
+                value={dateRange.to}
+                onChange={(e) => setDateRange(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="Min amount"
+                value={amountRange.min}
+                onChange={(e) => setAmountRange(prev => ({ ...prev, min: e.target.value }))}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="Max amount"
+                value={amountRange.max}
+                onChange={(e) => setAmountRange(prev => ({ ...prev, max: e.target.value }))}
+              />
+            </div>
+
+            <Select value={sortOption} onValueChange={setSortOption}>
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
@@ -335,7 +822,7 @@ export function Transactions({ session }: TransactionsProps) {
       <Card>
         <CardHeader>
           <CardTitle>
-            All Transactions ({filteredTransactions.length})
+            All Transactions ({total})
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -352,57 +839,133 @@ export function Transactions({ session }: TransactionsProps) {
                 </div>
               ))}
             </div>
-          ) : filteredTransactions.length > 0 ? (
+          ) : transactions.length > 0 ? (
             <div className="space-y-2">
-              {filteredTransactions
-                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-                .map((transaction) => (
-                  <div key={transaction.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors">
-                    <div className="flex items-center space-x-4">
-                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                        transaction.type === 'income' ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'
-                      }`}>
-                        {transaction.type === 'income' ? (
-                          <TrendingUp className="h-5 w-5" />
+              {transactions.map((transaction) => (
+                <div key={transaction.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors">
+                  <div className="flex items-center space-x-4">
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                      transaction.type === 'income' ? 'bg-green-100 text-green-600'
+                        : transaction.type === 'transfer' ? 'bg-blue-100 text-blue-600'
+                        : 'bg-red-100 text-red-600'
+                    }`}>
+                      {transaction.type === 'income' ? (
+                        <TrendingUp className="h-5 w-5" />
+                      ) : transaction.type === 'transfer' ? (
+                        <ArrowLeftRight className="h-5 w-5" />
+                      ) : (
+                        <TrendingDown className="h-5 w-5" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="font-medium">{transaction.description}</p>
+                      <div className="flex items-center space-x-2 mt-1">
+                        {transaction.type === 'transfer' ? (
+                          <Badge variant="secondary">
+                            {transaction.transferDirection === 'in'
+                              ? `From ${accountName(transaction.counterpartAccountId) ?? 'unknown account'}`
+                              : `To ${accountName(transaction.counterpartAccountId) ?? 'unknown account'}`}
+                          </Badge>
+                        ) : transaction.splits?.length ? (
+                          transaction.splits.map((split, index) => (
+                            <Badge key={index} variant="secondary" title={split.memo}>
+                              <CategoryIcon icon={categoryFor(transaction, split.category)?.icon} color={categoryFor(transaction, split.category)?.color} className="h-3 w-3" />
+                              {split.category} {formatMoney(split.amount, transaction.currency)}
+                            </Badge>
+                          ))
                         ) : (
-                          <TrendingDown className="h-5 w-5" />
+                          <Badge variant="secondary">
+                            <CategoryIcon icon={categoryFor(transaction)?.icon} color={categoryFor(transaction)?.color} className="h-3 w-3" />
+                            {transaction.category}
+                          </Badge>
                         )}
-                      </div>
-                      <div>
-                        <p className="font-medium">{transaction.description}</p>
-                        <div className="flex items-center space-x-2 mt-1">
-                          <Badge variant="secondary">{transaction.category}</Badge>
-                          <span className="text-sm text-gray-500">
-                            {new Date(transaction.date).toLocaleDateString()}
-                          </span>
-                        </div>
+                        {transaction.recurringId && (
+                          <Repeat className="h-4 w-4 text-gray-400" aria-label="Recurring" />
+                        )}
+                        {!!transaction.attachmentCount && (
+                          <Paperclip className="h-4 w-4 text-gray-400" aria-label={`${transaction.attachmentCount} attached`} />
+                        )}
+                        {transaction.tags?.map(tag => (
+                          <Badge key={tag} variant="outline">#{tag}</Badge>
+                        ))}
+                        {payeeName(transaction.payeeId) && (
+                          <button
+                            type="button"
+                            className="flex items-center text-sm text-gray-500 hover:underline"
+                            onClick={() => setFilterPayee(transaction.payeeId!)}
+                            aria-label={`Show transactions with ${payeeName(transaction.payeeId)}`}
+                          >
+                            <Store className="h-3 w-3 mr-1" />
+                            {payeeName(transaction.payeeId)}
+                          </button>
+                        )}
+                        {accountName(transaction.accountId) && (
+                          <span className="text-sm text-gray-500">{accountName(transaction.accountId)}</span>
+                        )}
+                        <span className="text-sm text-gray-500">
+                          {formatDate(transaction.date)}
+                        </span>
                       </div>
                     </div>
-                    
-                    <div className="flex items-center space-x-3">
-                      <p className={`font-bold ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
-                        {transaction.type === 'income' ? '+' : '-'}${transaction.amount.toFixed(2)}
+                  </div>
+                  
+                  <div className="flex items-center space-x-3">
+                    <div className="text-right">
+                      <p className={`font-bold ${
+                        transaction.type === 'income' ? 'text-green-600'
+                          : transaction.type === 'transfer' ? 'text-blue-600'
+                          : 'text-red-600'
+                      }`}>
+                        {transaction.type === 'income' || transaction.transferDirection === 'in' ? '+' : '-'}{formatMoney(transaction.amount, transaction.currency)}
                       </p>
-                      
-                      <div className="flex space-x-1">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => startEdit(transaction)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleDelete(transaction.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                      {transaction.currency && transaction.currency !== baseCurrency && (
+                        <p className="text-xs text-gray-500">≈ {formatMoney(toBase(transaction.amount, transaction.currency))}</p>
+                      )}
+                      {transaction.runningBalance !== undefined && (
+                        <p className="text-xs text-gray-500">Balance {formatMoney(transaction.runningBalance)}</p>
+                      )}
+                    </div>
+                    
+                    <div className="flex space-x-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setAttachingTransaction(transaction)}
+                        aria-label="Attachments"
+                      >
+                        <Paperclip className="h-4 w-4" />
+                        {!!transaction.attachmentCount && <span className="ml-1 text-xs">{transaction.attachmentCount}</span>}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => startEdit(transaction)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDelete(transaction.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-                ))}
+                </div>
+              ))}
+
+              {nextCursor && (
+                <div className="flex justify-center pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchTransactions(nextCursor)}
+                    disabled={loadingMore}
+                  >
+                    {loadingMore ? 'Loading...' : `Load more (${total - transactions.length} remaining)`}
+                  </Button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-8 text-gray-500">
@@ -413,6 +976,13 @@ export function Transactions({ session }: TransactionsProps) {
           )}
         </CardContent>
       </Card>
+
+      <AttachmentDialog
+        session={session}
+        transaction={attachingTransaction}
+        onClose={() => setAttachingTransaction(null)}
+        onCountChange={(id, count) => setTransactions(prev => prev.map(t => t.id === id ? { ...t, attachmentCount: count } : t))}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash' | 'loan';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  balance: number;
+  // Ledger balance from the most recent imported OFX/QFX statement
+  statementBalance?: { amount: number; date: string | null; currency: string | null };
+}
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit_card: 'Credit Card',
+  cash: 'Cash',
+  loan: 'Loan',
+};
+
+// Loads the user's accounts together with their current balances
+export function useAccounts(session: any) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/accounts`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setAccounts(data);
+      }
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+      toast.error('Failed to fetch accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const accountName = (id?: string | null) => accounts.find(a => a.id === id)?.name;
+
+  return { accounts, loading, accountName, refresh: fetchAccounts };
+}
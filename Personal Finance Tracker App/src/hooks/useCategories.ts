@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+import { getCategoryPath } from '../supabase/functions/_shared/aggregations';
+
+export interface Category {
+  id: string;
+  name: string;
+  kind: 'income' | 'expense';
+  color: string;
+  icon: string;
+  parentId: string | null;
+}
+
+// Loads the user's categories from the server, which seeds the defaults on first use
+export function useCategories(session: any) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/categories`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data: Category[] = await response.json();
+        setCategories(data.sort((a, b) => a.name.localeCompare(b.name)));
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast.error('Failed to fetch categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const categoriesOfKind = (kind: 'income' | 'expense') => categories.filter(c => c.kind === kind);
+
+  // Categories without subcategories, which are the ones transactions attach to
+  const leafCategoriesOfKind = (kind: 'income' | 'expense') =>
+    categoriesOfKind(kind).filter(c => !categories.some(child => child.parentId === c.id));
+
+  // Full "Parent › Child" label for a category
+  const labelFor = (category: Category) => getCategoryPath(categories, category).map(c => c.name).join(' › ');
+
+  return { categories, loading, categoriesOfKind, leafCategoriesOfKind, labelFor, refresh: fetchCategories };
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+import { DEFAULT_BASE_CURRENCY, RateTable, toBaseAmount, toBaseTransaction } from '../supabase/functions/_shared/currency';
+
+export interface CurrencySettings extends RateTable {
+  missingRates: string[];
+}
+
+// Loads the user's base currency and exchange rates, with helpers to convert amounts
+export function useCurrency(session: any) {
+  const [settings, setSettings] = useState<CurrencySettings>({
+    baseCurrency: DEFAULT_BASE_CURRENCY,
+    rates: {},
+    missingRates: []
+  });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCurrency();
+  }, []);
+
+  const fetchCurrency = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/currency`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setSettings(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching currency settings:', error);
+      toast.error('Failed to fetch currency settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const baseCurrency = settings.baseCurrency;
+  const toBase = (amount: number, currency?: string | null) => toBaseAmount(amount, currency, settings);
+  const toBaseTransactions = <T extends { amount: number; currency?: string | null; splits?: { amount: number }[] }>(transactions: T[]) =>
+    transactions.map(t => toBaseTransaction(t, settings));
+
+  return { settings, baseCurrency, loading, toBase, toBaseTransactions, refresh: fetchCurrency };
+}
@@ -0,0 +1,17 @@
+import { useCurrency } from './useCurrency';
+import { usePreferences } from './usePreferences';
+import { createFormatter } from '../supabase/functions/_shared/format';
+
+// Currency conversion plus money and date formatting that follows the user's preferences
+export function useFormatter(session: any) {
+  const currency = useCurrency(session);
+  const { preferences, loading, refresh } = usePreferences(session);
+
+  return {
+    ...currency,
+    ...createFormatter(preferences, currency.settings),
+    preferences,
+    loading: currency.loading || loading,
+    refresh: () => Promise.all([currency.refresh(), refresh()]),
+  };
+}
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+
+export interface Payee {
+  id: string;
+  name: string;
+  aliases: string[];
+  defaultCategory: string | null;
+  transactionCount: number;
+}
+
+// Loads the user's payees, sorted by name, with the number of transactions for each
+export function usePayees(session: any) {
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPayees();
+  }, []);
+
+  const fetchPayees = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/payees`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPayees(data);
+      }
+    } catch (error) {
+      console.error('Error fetching payees:', error);
+      toast.error('Failed to fetch payees');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const payeeName = (id?: string | null) => payees.find(p => p.id === id)?.name;
+
+  return { payees, loading, payeeName, refresh: fetchPayees };
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { projectId } from '../utils/supabase/info';
+import { toast } from 'sonner@2.0.3';
+import { DEFAULT_PREFERENCES, Preferences } from '../supabase/functions/_shared/preferences';
+
+// Loads the user's display preferences (currency, locale, date format, timezone, week start)
+export function usePreferences(session: any) {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, []);
+
+  const fetchPreferences = async () => {
+    try {
+      const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-8b4b78bc/preferences`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        setPreferences(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching preferences:', error);
+      toast.error('Failed to fetch preferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { preferences, loading, refresh: fetchPreferences };
+}
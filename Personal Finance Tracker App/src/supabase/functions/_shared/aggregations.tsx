@@ -0,0 +1,175 @@
+// Totals over transactions, shared by the dashboard and the server-side reports. Amounts are
+// summed as they are, so callers convert transactions to the base currency first.
+
+import { SplitLine, categoryAmounts } from './splits.tsx';
+
+export interface AggregatedTransaction {
+  amount: number;
+  type: 'income' | 'expense' | 'transfer';
+  category: string;
+  date: string;
+  splits?: SplitLine[];
+  transferDirection?: 'in' | 'out';
+  payeeId?: string | null;
+}
+
+export interface CategoryNode {
+  id: string;
+  name: string;
+  kind: 'income' | 'expense';
+  color?: string;
+  parentId: string | null;
+}
+
+export interface TransactionTotals {
+  totalIncome: number;
+  totalExpenses: number;
+  balance: number;
+  transactionCount: number;
+}
+
+export function summarizeTransactions(transactions: AggregatedTransaction[]): TransactionTotals {
+  const totalIncome = transactions
+    .filter(t => t.type === 'income')
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  const totalExpenses = transactions
+    .filter(t => t.type === 'expense')
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  return {
+    totalIncome,
+    totalExpenses,
+    balance: totalIncome - totalExpenses,
+    // A transfer is one movement of money even though it is stored as two legs
+    transactionCount: transactions.filter(t => t.transferDirection !== 'in').length
+  };
+}
+
+// Totals per category name. Split transactions contribute each line to its own category.
+export function categoryTotals(transactions: AggregatedTransaction[], kind: 'income' | 'expense'): Record<string, number> {
+  return transactions
+    .filter(t => t.type === kind)
+    .flatMap(t => categoryAmounts(t))
+    .reduce((acc, line) => {
+      acc[line.category] = (acc[line.category] || 0) + line.amount;
+      return acc;
+    }, {} as Record<string, number>);
+}
+
+// Income and expenses per calendar month (YYYY-MM), oldest first. Transfers only move money
+// between accounts, so they are neither income nor expenses.
+export function monthlyTotals(transactions: AggregatedTransaction[]): { key: string; income: number; expenses: number }[] {
+  const months = new Map<string, { key: string; income: number; expenses: number }>();
+
+  for (const transaction of transactions) {
+    if (transaction.type === 'transfer') continue;
+
+    const key = transaction.date.slice(0, 7);
+    const month = months.get(key) ?? { key, income: 0, expenses: 0 };
+    if (transaction.type === 'income') {
+      month.income += transaction.amount;
+    } else {
+      month.expenses += transaction.amount;
+    }
+    months.set(key, month);
+  }
+
+  return [...months.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// Income and expense transactions with the largest amounts, biggest first
+export function largestTransactions<T extends AggregatedTransaction>(transactions: T[], limit: number): T[] {
+  return transactions
+    .filter(t => t.type !== 'transfer')
+    .sort((a, b) => b.amount - a.amount || b.date.localeCompare(a.date))
+    .slice(0, limit);
+}
+
+export interface PayeeTotal {
+  payeeId: string;
+  total: number;
+  count: number;
+}
+
+// Spending per payee, biggest first. Expenses without a payee are left out.
+export function payeeTotals(transactions: AggregatedTransaction[], limit: number): PayeeTotal[] {
+  const totals = new Map<string, PayeeTotal>();
+
+  for (const transaction of transactions) {
+    if (transaction.type !== 'expense' || !transaction.payeeId) continue;
+
+    const payee = totals.get(transaction.payeeId) ?? { payeeId: transaction.payeeId, total: 0, count: 0 };
+    payee.total += transaction.amount;
+    payee.count += 1;
+    totals.set(transaction.payeeId, payee);
+  }
+
+  return [...totals.values()].sort((a, b) => b.total - a.total).slice(0, limit);
+}
+
+// Returns the chain of categories from the top-level ancestor down to the given category
+export function getCategoryPath<T extends CategoryNode>(categories: T[], category: T): T[] {
+  const path = [category];
+  let current = category;
+  while (current.parentId) {
+    const parent = categories.find(c => c.id === current.parentId);
+    if (!parent || path.includes(parent)) break;
+    path.unshift(parent);
+    current = parent;
+  }
+  return path;
+}
+
+export interface CategorySlice {
+  id: string | null;
+  name: string;
+  value: number;
+  color?: string;
+  hasChildren: boolean;
+}
+
+// Rolls per-category totals (keyed by category name) up to the children of parentId,
+// or to the top-level categories when parentId is null. Amounts booked directly on the
+// parent itself are reported as their own slice, as are names without a category record.
+export function rollUpCategoryTotals(
+  totals: Record<string, number>,
+  categories: CategoryNode[],
+  kind: 'income' | 'expense',
+  parentId: string | null,
+): CategorySlice[] {
+  const ofKind = categories.filter(c => c.kind === kind);
+  const children = ofKind.filter(c => (c.parentId ?? null) === parentId);
+  const slices: CategorySlice[] = [];
+  const accounted = new Set<string>();
+
+  for (const child of children) {
+    const names = [child, ...ofKind.filter(c => getCategoryPath(ofKind, c).includes(child) && c !== child)];
+    const value = names.reduce((sum, c) => sum + (totals[c.name] || 0), 0);
+    names.forEach(c => accounted.add(c.name));
+    if (value > 0) {
+      slices.push({
+        id: child.id,
+        name: child.name,
+        value,
+        color: child.color,
+        hasChildren: ofKind.some(c => c.parentId === child.id),
+      });
+    }
+  }
+
+  if (parentId) {
+    const parent = ofKind.find(c => c.id === parentId);
+    if (parent && totals[parent.name]) {
+      slices.push({ id: null, name: `${parent.name} (other)`, value: totals[parent.name], color: parent.color, hasChildren: false });
+    }
+  } else {
+    for (const [name, value] of Object.entries(totals)) {
+      if (!accounted.has(name) && !ofKind.some(c => c.name === name) && value > 0) {
+        slices.push({ id: null, name, value, hasChildren: false });
+      }
+    }
+  }
+
+  return slices.sort((a, b) => b.value - a.value);
+}
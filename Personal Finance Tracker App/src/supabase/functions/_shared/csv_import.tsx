@@ -0,0 +1,243 @@
+// Bank statement CSV parsing, shared by the import wizard and the edge function. A profile
+// describes one bank's export format: how to split the file and which column holds what.
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+export const CSV_DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'YYYY/MM/DD'] as const;
+export type CsvDateFormat = typeof CSV_DATE_FORMATS[number];
+export type DecimalSeparator = '.' | ',';
+
+// Column indexes are zero-based; null means the column is not mapped. Either `amount` (signed,
+// negative for money out) or at least one of `debit`/`credit` must be mapped.
+export interface CsvColumnMapping {
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  category: number | null;
+}
+
+export interface CsvImportProfile {
+  id?: string;
+  name: string;
+  delimiter: string;
+  hasHeader: boolean;
+  dateFormat: CsvDateFormat;
+  decimalSeparator: DecimalSeparator;
+  columns: CsvColumnMapping;
+}
+
+export interface CsvTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string | null;
+}
+
+export interface CsvRowError {
+  row: number;
+  message: string;
+}
+
+export const EMPTY_COLUMN_MAPPING: CsvColumnMapping = {
+  date: null,
+  description: null,
+  amount: null,
+  debit: null,
+  credit: null,
+  category: null,
+};
+
+// Splits CSV content into rows of cells, honouring quoted cells that contain delimiters,
+// doubled quotes and line breaks. Blank lines are dropped.
+export function parseCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+}
+
+// Picks the delimiter that splits the first lines into the most, and most consistent, columns
+export function detectDelimiter(content: string): string {
+  const sample = content.split(/\r?\n/).filter(line => line.trim()).slice(0, 5);
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = sample.map(line => parseCsv(line, delimiter)[0]?.length ?? 0);
+    const consistent = counts.every(count => count === counts[0]);
+    const score = consistent ? counts[0] : Math.min(...counts);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Converts a date cell to YYYY-MM-DD, or null when it does not match the format
+export function parseCsvDate(value: string, format: CsvDateFormat): string | null {
+  const parts = value.trim().split(/[-/.\s]/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let year: number, month: number, day: number;
+  switch (format) {
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      [year, month, day] = parts.map(Number);
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts.map(Number);
+      break;
+    default:
+      [day, month, year] = parts.map(Number);
+  }
+
+  // Two-digit years are taken to be in this century
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().split('T')[0];
+}
+
+// Converts an amount cell to a number, or null when it is empty or not a number. Currency
+// symbols and thousands separators are ignored; parentheses or a trailing minus mean negative.
+export function parseCsvAmount(value: string, decimalSeparator: DecimalSeparator): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+  text = text
+    .replace(/[^\d.,+-]/g, '')
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.');
+
+  const amount = parseFloat(text);
+  if (!/^[+-]?\d*\.?\d+$/.test(text) || Number.isNaN(amount)) return null;
+
+  return negative ? -Math.abs(amount) : amount;
+}
+
+export function validateCsvProfile(profile: any): string | undefined {
+  if (!profile || typeof profile !== 'object') {
+    return 'Import profile is required';
+  }
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    return 'Profile name is required';
+  }
+  if (!CSV_DELIMITERS.includes(profile.delimiter)) {
+    return 'Delimiter must be a comma, semicolon, tab or pipe';
+  }
+  if (!CSV_DATE_FORMATS.includes(profile.dateFormat)) {
+    return `Date format must be one of: ${CSV_DATE_FORMATS.join(', ')}`;
+  }
+  if (profile.decimalSeparator !== '.' && profile.decimalSeparator !== ',') {
+    return 'Decimal separator must be "." or ","';
+  }
+
+  const columns = profile.columns ?? {};
+  for (const key of Object.keys(EMPTY_COLUMN_MAPPING)) {
+    const index = columns[key];
+    if (index !== null && index !== undefined && !(Number.isInteger(index) && index >= 0)) {
+      return `Invalid column for ${key}`;
+    }
+  }
+  if (columns.date == null || columns.description == null) {
+    return 'Map the date and description columns';
+  }
+  if (columns.amount == null && columns.debit == null && columns.credit == null) {
+    return 'Map an amount column, or debit and credit columns';
+  }
+}
+
+// Applies a profile to parsed rows. Rows that cannot be read are reported rather than imported;
+// row numbers are 1-based and count the header row, matching what a spreadsheet shows.
+export function mapCsvRows(rows: string[][], profile: CsvImportProfile): { transactions: CsvTransaction[]; errors: CsvRowError[] } {
+  const transactions: CsvTransaction[] = [];
+  const errors: CsvRowError[] = [];
+  const { columns } = profile;
+  const cell = (row: string[], index: number | null) => (index == null ? '' : row[index] ?? '');
+
+  const dataRows = profile.hasHeader ? rows.slice(1) : rows;
+  dataRows.forEach((row, index) => {
+    const rowNumber = index + (profile.hasHeader ? 2 : 1);
+
+    const date = parseCsvDate(cell(row, columns.date), profile.dateFormat);
+    if (!date) {
+      errors.push({ row: rowNumber, message: `Unreadable date "${cell(row, columns.date)}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (columns.amount != null) {
+      amount = parseCsvAmount(cell(row, columns.amount), profile.decimalSeparator);
+    } else {
+      const debit = parseCsvAmount(cell(row, columns.debit), profile.decimalSeparator);
+      const credit = parseCsvAmount(cell(row, columns.credit), profile.decimalSeparator);
+      amount = debit === null && credit === null ? null : Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+    }
+    if (amount === null || amount === 0) {
+      errors.push({ row: rowNumber, message: 'Missing or zero amount' });
+      return;
+    }
+
+    transactions.push({
+      date,
+      description: cell(row, columns.description) || 'Imported transaction',
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'expense' : 'income',
+      category: cell(row, columns.category) || null,
+    });
+  });
+
+  return { transactions, errors };
+}
@@ -0,0 +1,124 @@
+// Currencies and exchange rates, shared by the edge function and the web app. A user's rate table
+// is expressed in their base currency: rates[code] is the value of one unit of `code` in the base
+// currency, so converting to the base currency is a single multiplication.
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const COMMON_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'INR', 'MXN',
+  'BRL', 'SEK', 'NOK', 'DKK', 'NZD', 'SGD', 'HKD', 'ZAR',
+];
+
+export interface RateTable {
+  baseCurrency: string;
+  rates: Record<string, number>;
+  updatedAt?: string | null;
+}
+
+export function isCurrencyCode(code: unknown): code is string {
+  return typeof code === 'string' && /^[A-Z]{3}$/.test(code);
+}
+
+export function isValidRate(rate: unknown): rate is number {
+  return typeof rate === 'number' && Number.isFinite(rate) && rate > 0;
+}
+
+// Value of one unit of the currency in the base currency, or null when the table has no rate.
+// Amounts without a currency predate multi-currency support and are in the base currency.
+export function rateFor(table: RateTable, currency?: string | null): number | null {
+  if (!currency || currency === table.baseCurrency) return 1;
+  return table.rates[currency] ?? null;
+}
+
+// Converts an amount to the base currency. Amounts in a currency without a rate are left
+// unconverted; use missingRates to warn about them.
+export function toBaseAmount(amount: number, currency: string | null | undefined, table: RateTable): number {
+  const rate = rateFor(table, currency);
+  return rate === null ? amount : amount * rate;
+}
+
+// Copy of a transaction with its amount and split lines converted to the base currency
+export function toBaseTransaction<T extends { amount: number; currency?: string | null; splits?: { amount: number }[] }>(transaction: T, table: RateTable): T {
+  const rate = rateFor(table, transaction.currency);
+  if (rate === null || rate === 1) return transaction;
+
+  return {
+    ...transaction,
+    amount: transaction.amount * rate,
+    splits: transaction.splits?.map(split => ({ ...split, amount: split.amount * rate })),
+  };
+}
+
+// Currencies in use that have no rate in the table
+export function missingRates(currencies: Iterable<string | null | undefined>, table: RateTable): string[] {
+  const missing = new Set<string>();
+  for (const currency of currencies) {
+    if (rateFor(table, currency) === null) missing.add(currency!);
+  }
+  return [...missing].sort();
+}
+
+// Re-expresses the table in a new base currency, or returns null when there is no rate to pivot on
+export function rebaseRates(table: RateTable, baseCurrency: string): RateTable | null {
+  if (baseCurrency === table.baseCurrency) return table;
+
+  const pivot = rateFor(table, baseCurrency);
+  if (pivot === null) return null;
+
+  const rates: Record<string, number> = { [table.baseCurrency]: 1 / pivot };
+  for (const [code, rate] of Object.entries(table.rates)) {
+    if (code !== baseCurrency) rates[code] = rate / pivot;
+  }
+
+  return { ...table, baseCurrency, rates };
+}
+
+// Parses a rate file: either JSON ({ "EUR": 1.08 } or { "rates": { ... } }) or CSV lines of
+// `currency,rate`, with an optional header row
+export function parseRateFile(content: string): { rates?: Record<string, number>; error?: string } {
+  const rates: Record<string, number> = {};
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('{')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return { error: 'The rate file is not valid JSON' };
+    }
+
+    for (const [code, rate] of Object.entries(parsed.rates ?? parsed)) {
+      const normalized = code.trim().toUpperCase();
+      if (!isCurrencyCode(normalized) || !isValidRate(Number(rate))) {
+        return { error: `Invalid rate for "${code}"` };
+      }
+      rates[normalized] = Number(rate);
+    }
+  } else {
+    const lines = trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    for (const [index, line] of lines.entries()) {
+      const [code, rate] = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+      const normalized = (code || '').toUpperCase();
+      if (index === 0 && !isValidRate(Number(rate))) continue;
+      if (!isCurrencyCode(normalized) || !isValidRate(Number(rate))) {
+        return { error: `Invalid rate on line ${index + 1}` };
+      }
+      rates[normalized] = Number(rate);
+    }
+  }
+
+  if (Object.keys(rates).length === 0) {
+    return { error: 'The rate file does not contain any rates' };
+  }
+
+  return { rates };
+}
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_BASE_CURRENCY, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency codes are still shown rather than failing the whole render
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,86 @@
+// Preference-aware formatting of money and dates. Transaction dates are calendar days (YYYY-MM-DD)
+// and are shown as-is; timestamps (createdAt, paidAt, ...) are shown in the preferred timezone.
+
+import { RateTable, formatCurrency, rateFor } from './currency.tsx';
+import { Preferences, todayIn } from './preferences.tsx';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Calendar date of a date string or timestamp as [year, month, day]
+function calendarDate(value: string | Date, timezone: string | null): [number, number, number] {
+  if (typeof value === 'string' && DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return [year, month, day];
+  }
+
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const [year, month, day] = todayIn(timezone || Intl.DateTimeFormat().resolvedOptions().timeZone, date).split('-').map(Number);
+  return [year, month, day];
+}
+
+export function createFormatter(preferences: Preferences, table: RateTable) {
+  const locale = preferences.locale || undefined;
+  const timezone = preferences.timezone;
+
+  // Falls back to the base currency until the display currency has an exchange rate
+  const displayRate = rateFor(table, preferences.currency);
+  const displayCurrency = preferences.currency && displayRate !== null ? preferences.currency : table.baseCurrency;
+
+  // Amounts without a currency are in the base currency and are converted to the display currency;
+  // amounts with an explicit currency are shown in that currency
+  const formatMoney = (amount: number, currency?: string | null) => {
+    if (currency) return formatCurrency(amount, currency, locale);
+    return formatCurrency(amount / (displayRate ?? 1), displayCurrency, locale);
+  };
+
+  const formatNumber = (value: number, fractionDigits = 2) =>
+    new Intl.NumberFormat(locale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value);
+
+  const formatPercent = (value: number, fractionDigits = 1) =>
+    new Intl.NumberFormat(locale, { style: 'percent', minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value / 100);
+
+  const formatDate = (value: string | Date) => {
+    const [year, month, day] = calendarDate(value, timezone);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+
+    switch (preferences.dateFormat) {
+      case 'YYYY-MM-DD':
+        return `${year}-${pad(month)}-${pad(day)}`;
+      case 'MM/DD/YYYY':
+        return `${pad(month)}/${pad(day)}/${year}`;
+      case 'DD/MM/YYYY':
+        return `${pad(day)}/${pad(month)}/${year}`;
+      case 'DD.MM.YYYY':
+        return `${pad(day)}.${pad(month)}.${year}`;
+      default:
+        return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(new Date(Date.UTC(year, month - 1, day)));
+    }
+  };
+
+  const formatDateTime = (value: string | Date) => {
+    const time = new Intl.DateTimeFormat(locale, { timeStyle: 'short', timeZone: timezone || undefined })
+      .format(typeof value === 'string' ? new Date(value) : value);
+    return `${formatDate(value)} ${time}`;
+  };
+
+  // Short month label for charts, e.g. "Mar 24", from a YYYY-MM or YYYY-MM-DD string
+  const formatMonth = (value: string) => {
+    const [year, month] = value.split('-').map(Number);
+    return new Intl.DateTimeFormat(locale, { month: 'short', year: '2-digit', timeZone: 'UTC' }).format(new Date(Date.UTC(year, month - 1, 1)));
+  };
+
+  return {
+    locale,
+    displayCurrency,
+    weekStart: preferences.weekStart,
+    today: () => todayIn(timezone || Intl.DateTimeFormat().resolvedOptions().timeZone),
+    formatMoney,
+    formatNumber,
+    formatPercent,
+    formatDate,
+    formatDateTime,
+    formatMonth,
+  };
+}
+
+export type Formatter = ReturnType<typeof createFormatter>;
@@ -0,0 +1,91 @@
+// Display preferences, shared by the edge function and the web app. Every field is optional in
+// storage; null means "use the default" (the base currency, or the browser's locale and timezone).
+
+export const DATE_FORMATS = ['locale', 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'] as const;
+export type DateFormat = typeof DATE_FORMATS[number];
+
+export const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface Preferences {
+  currency: string | null;
+  locale: string | null;
+  dateFormat: DateFormat;
+  timezone: string | null;
+  weekStart: number;
+  updatedAt?: string | null;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  currency: null,
+  locale: null,
+  dateFormat: 'locale',
+  timezone: null,
+  weekStart: 0,
+};
+
+export function isDateFormat(format: unknown): format is DateFormat {
+  return DATE_FORMATS.includes(format as DateFormat);
+}
+
+export function isLocale(locale: unknown): locale is string {
+  if (typeof locale !== 'string' || !locale) return false;
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export function isTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isWeekStart(day: unknown): day is number {
+  return Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6;
+}
+
+// Validates preference changes, merging them over the current preferences. Empty strings reset
+// the optional fields to their defaults.
+export function buildPreferences(fields: any, current: Preferences): { preferences?: Preferences; error?: string } {
+  const merged = { ...DEFAULT_PREFERENCES, ...current };
+
+  for (const key of ['currency', 'locale', 'timezone'] as const) {
+    if (fields[key] !== undefined) merged[key] = fields[key] || null;
+  }
+  if (fields.dateFormat !== undefined) merged.dateFormat = fields.dateFormat;
+  if (fields.weekStart !== undefined) merged.weekStart = Number(fields.weekStart);
+
+  if (merged.currency !== null && !/^[A-Z]{3}$/.test(merged.currency)) {
+    return { error: 'Display currency must be a three-letter currency code' };
+  }
+  if (merged.locale !== null && !isLocale(merged.locale)) {
+    return { error: `Unsupported locale "${merged.locale}"` };
+  }
+  if (!isDateFormat(merged.dateFormat)) {
+    return { error: `Date format must be one of: ${DATE_FORMATS.join(', ')}` };
+  }
+  if (merged.timezone !== null && !isTimezone(merged.timezone)) {
+    return { error: `Unknown timezone "${merged.timezone}"` };
+  }
+  if (!isWeekStart(merged.weekStart)) {
+    return { error: 'First day of week must be between 0 (Sunday) and 6 (Saturday)' };
+  }
+
+  return { preferences: merged };
+}
+
+// Today's calendar date as YYYY-MM-DD in the given timezone, or in UTC when none is set
+export function todayIn(timezone?: string | null, now: Date = new Date()): string {
+  if (!timezone) return now.toISOString().split('T')[0];
+
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
@@ -0,0 +1,60 @@
+// Split transactions, shared by the edge function and the web app. A split transaction
+// keeps its total in `amount` and divides it over `splits`, each with its own category.
+
+export const SPLIT_CATEGORY = 'Split';
+
+export interface SplitLine {
+  category: string;
+  amount: number;
+  memo?: string;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// The per-category amounts a transaction contributes: one entry per split line,
+// or the whole amount under the transaction's own category when it is not split
+export function categoryAmounts(transaction: { category: string; amount: number; splits?: SplitLine[] }): { category: string; amount: number }[] {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return transaction.splits.map(split => ({ category: split.category, amount: split.amount }));
+  }
+  return [{ category: transaction.category, amount: transaction.amount }];
+}
+
+// Category names a transaction is booked under, including every split line
+export function transactionCategories(transaction: { category: string; splits?: SplitLine[] }): string[] {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return [...new Set(transaction.splits.map(split => split.category))];
+  }
+  return [transaction.category];
+}
+
+// Returns an error message when the split lines are incomplete or do not add up to the total
+export function validateSplits(splits: unknown, total: number): string | null {
+  if (!Array.isArray(splits) || splits.length < 2) {
+    return 'A split transaction needs at least two lines';
+  }
+
+  for (const [index, split] of splits.entries()) {
+    if (!split || typeof split.category !== 'string' || !split.category.trim()) {
+      return `Split line ${index + 1} needs a category`;
+    }
+    if (typeof split.amount !== 'number' || !Number.isFinite(split.amount) || split.amount <= 0) {
+      return `Split line ${index + 1} needs an amount greater than zero`;
+    }
+  }
+
+  const splitTotal = splits.reduce((sum: number, split: SplitLine) => sum + toCents(split.amount), 0);
+  if (splitTotal !== toCents(total)) {
+    return `Split lines add up to ${(splitTotal / 100).toFixed(2)} but the transaction amount is ${total.toFixed(2)}`;
+  }
+
+  return null;
+}
+
+export function normalizeSplits(splits: SplitLine[]): SplitLine[] {
+  return splits.map(split => ({
+    category: split.category.trim(),
+    amount: toCents(split.amount) / 100,
+    memo: split.memo?.trim() || undefined,
+  }));
+}
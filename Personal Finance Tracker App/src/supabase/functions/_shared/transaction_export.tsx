@@ -0,0 +1,51 @@
+// Columns of the spreadsheet export of transactions, shared by the edge function, which writes
+// the file, and the web app, which lets the user pick the columns.
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const TRANSACTION_EXPORT_COLUMNS = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'payee', label: 'Payee' },
+  { key: 'type', label: 'Type' },
+  { key: 'category', label: 'Category' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'baseAmount', label: 'Amount in Base Currency' },
+  { key: 'account', label: 'Account' },
+  { key: 'counterpartAccount', label: 'Transfer Account' },
+  { key: 'transferDirection', label: 'Transfer Direction' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'splits', label: 'Splits' },
+  { key: 'recurringId', label: 'Recurring Rule ID' },
+  { key: 'id', label: 'Transaction ID' },
+  { key: 'createdAt', label: 'Created At' },
+  // Any other fields stored on the transactions, such as bank ids from OFX imports
+  { key: 'extras', label: 'Other Fields' },
+] as const;
+
+export type ExportColumn = typeof TRANSACTION_EXPORT_COLUMNS[number]['key'];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['date', 'description', 'type', 'category', 'amount', 'currency', 'account', 'tags'];
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return EXPORT_FORMATS.includes(format as ExportFormat);
+}
+
+// Parses a comma-separated column list, keeping the known columns in the order given
+export function parseExportColumns(value: string | undefined): { columns?: ExportColumn[]; error?: string } {
+  if (!value) return { columns: DEFAULT_EXPORT_COLUMNS };
+
+  const keys = value.split(',').map(key => key.trim()).filter(Boolean);
+  const unknown = keys.filter(key => !TRANSACTION_EXPORT_COLUMNS.some(column => column.key === key));
+  if (unknown.length > 0) {
+    return { error: `Unknown export columns: ${unknown.join(', ')}` };
+  }
+  if (keys.length === 0) {
+    return { error: 'Choose at least one column to export' };
+  }
+
+  return { columns: [...new Set(keys)] as ExportColumn[] };
+}
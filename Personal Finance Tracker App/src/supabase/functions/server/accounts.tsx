@@ -0,0 +1,44 @@
+// Financial accounts and balance calculations. Balances are signed: money held is positive
+// and money owed (credit cards, loans) is negative.
+
+export const ACCOUNT_TYPES = ['checking', 'savings', 'credit_card', 'cash', 'loan'] as const;
+
+export type AccountType = typeof ACCOUNT_TYPES[number];
+
+export function isAccountType(type: unknown): type is AccountType {
+  return ACCOUNT_TYPES.includes(type as AccountType);
+}
+
+// Signed effect of a transaction on the balance of the account it belongs to.
+// Each leg of a transfer moves money out of or into its own account.
+export function balanceEffect(transaction: any): number {
+  if (transaction.type === 'income') return transaction.amount;
+  if (transaction.type === 'expense') return -transaction.amount;
+  if (transaction.type === 'transfer') {
+    return transaction.transferDirection === 'in' ? transaction.amount : -transaction.amount;
+  }
+  return 0;
+}
+
+function byDate(a: any, b: any): number {
+  return a.date.localeCompare(b.date) || (a.createdAt || '').localeCompare(b.createdAt || '');
+}
+
+export function calculateAccountBalance(account: any, transactions: any[]): number {
+  return transactions
+    .filter(t => t.accountId === account.id)
+    .reduce((balance, t) => balance + balanceEffect(t), account.openingBalance || 0);
+}
+
+// Maps each of the account's transaction ids to the account balance right after that transaction
+export function calculateRunningBalances(account: any, transactions: any[]): Map<string, number> {
+  const balances = new Map<string, number>();
+  let balance = account.openingBalance || 0;
+
+  for (const transaction of transactions.filter(t => t.accountId === account.id).sort(byDate)) {
+    balance += balanceEffect(transaction);
+    balances.set(transaction.id, balance);
+  }
+
+  return balances;
+}
@@ -0,0 +1,129 @@
+// Receipts and other documents attached to transactions. File contents live in an
+// AttachmentStorage: a private Supabase Storage bucket when deployed, or a directory on the local
+// filesystem for development (ATTACHMENT_STORAGE=local). Each file is stored under the user's id,
+// so one user's paths never reach another's files.
+
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+export interface AttachmentStorage {
+  put(path: string, data: Uint8Array, contentType: string): Promise<void>;
+  // Null when there is no file at the path
+  get(path: string): Promise<Uint8Array | null>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const ATTACHMENT_BUCKET = 'make-8b4b78bc-attachments';
+
+// File types that can be attached, recognized by their leading bytes rather than the name or the
+// type the browser reports
+const FILE_SIGNATURES: { contentType: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  { contentType: 'application/pdf', matches: bytes => startsWith(bytes, [0x25, 0x50, 0x44, 0x46]) },
+  { contentType: 'image/png', matches: bytes => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { contentType: 'image/jpeg', matches: bytes => startsWith(bytes, [0xff, 0xd8, 0xff]) },
+  { contentType: 'image/gif', matches: bytes => startsWith(bytes, [0x47, 0x49, 0x46, 0x38]) },
+  {
+    contentType: 'image/webp',
+    matches: bytes => startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes.subarray(8), [0x57, 0x45, 0x42, 0x50]),
+  },
+];
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte);
+}
+
+// The content type of an image or PDF, or null for any other file
+export function detectAttachmentType(bytes: Uint8Array): string | null {
+  return FILE_SIGNATURES.find(signature => signature.matches(bytes))?.contentType ?? null;
+}
+
+export function attachmentPath(userId: string, transactionId: string, attachmentId: string): string {
+  return `${userId}/${transactionId}/${attachmentId}`;
+}
+
+// Keeps the file name readable in listings and download headers: no path, quotes or control characters
+export function cleanFileName(name: unknown): string {
+  const base = String(name ?? '').split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 120);
+  return cleaned || 'attachment';
+}
+
+// Header for showing a file in the browser under its own name. Names outside ASCII go in the
+// encoded filename* parameter, with a plain fallback for older clients.
+export function inlineDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_');
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export function supabaseStorage(client: SupabaseClient, bucket: string): AttachmentStorage {
+  // The bucket is private and created on first use
+  let ready: Promise<void> | null = null;
+  const ensureBucket = () => ready ??= (async () => {
+    const { data: buckets } = await client.storage.listBuckets();
+    if (!buckets?.some(existing => existing.name === bucket)) {
+      const { error } = await client.storage.createBucket(bucket, { public: false });
+      if (error && !/already exists/i.test(error.message)) {
+        ready = null;
+        throw error;
+      }
+    }
+  })();
+
+  return {
+    async put(path, data, contentType) {
+      await ensureBucket();
+      const { error } = await client.storage.from(bucket).upload(path, data, { contentType, upsert: true });
+      if (error) throw error;
+    },
+    async get(path) {
+      await ensureBucket();
+      const { data, error } = await client.storage.from(bucket).download(path);
+      if (error || !data) return null;
+      return new Uint8Array(await data.arrayBuffer());
+    },
+    async remove(paths) {
+      if (paths.length === 0) return;
+      await ensureBucket();
+      const { error } = await client.storage.from(bucket).remove(paths);
+      if (error) throw error;
+    },
+  };
+}
+
+export function fileSystemStorage(root: string): AttachmentStorage {
+  const fullPath = (path: string) => `${root.replace(/\/+$/, '')}/${path}`;
+
+  return {
+    async put(path, data) {
+      const target = fullPath(path);
+      await Deno.mkdir(target.slice(0, target.lastIndexOf('/')), { recursive: true });
+      await Deno.writeFile(target, data);
+    },
+    async get(path) {
+      try {
+        return await Deno.readFile(fullPath(path));
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return null;
+        throw error;
+      }
+    },
+    async remove(paths) {
+      for (const path of paths) {
+        try {
+          await Deno.remove(fullPath(path));
+        } catch (error) {
+          if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+      }
+    },
+  };
+}
+
+// Supabase Storage unless ATTACHMENT_STORAGE=local, which keeps files under ATTACHMENT_DIR
+export function createAttachmentStorage(client: SupabaseClient): AttachmentStorage {
+  if (Deno.env.get('ATTACHMENT_STORAGE') === 'local') {
+    return fileSystemStorage(Deno.env.get('ATTACHMENT_DIR') || './attachments');
+  }
+  return supabaseStorage(client, ATTACHMENT_BUCKET);
+}
@@ -0,0 +1,37 @@
+// Bill due dates and payment status. Bills are due on the same day every month; months are
+// identified as YYYY-MM and dates are UTC calendar days in YYYY-MM-DD form.
+
+export type BillStatus = 'paid' | 'autopay' | 'overdue' | 'due';
+
+export function isBillMonth(month: unknown): month is string {
+  return typeof month === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+}
+
+export function isDueDay(day: unknown): day is number {
+  return Number.isInteger(day) && (day as number) >= 1 && (day as number) <= 31;
+}
+
+export function monthOf(date: string): string {
+  return date.slice(0, 7);
+}
+
+// Shifts a YYYY-MM month by a number of months
+export function addMonths(month: string, months: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, monthIndex - 1 + months, 1));
+  return shifted.toISOString().slice(0, 7);
+}
+
+// Due date of the bill in the given month. A due day past the end of a short month
+// falls on its last day.
+export function billDueDate(bill: { dueDay: number }, month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return `${month}-${String(Math.min(bill.dueDay, lastDay)).padStart(2, '0')}`;
+}
+
+export function billStatus(bill: { dueDay: number; autopay?: boolean; payments?: Record<string, unknown> }, month: string, today: string): BillStatus {
+  if (bill.payments?.[month]) return 'paid';
+  if (bill.autopay) return 'autopay';
+  return billDueDate(bill, month) < today ? 'overdue' : 'due';
+}
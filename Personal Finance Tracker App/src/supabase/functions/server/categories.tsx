@@ -0,0 +1,58 @@
+// Default categories seeded for every user on first use. Icons are lucide-react icon names.
+
+export type CategoryKind = 'income' | 'expense';
+
+export const DEFAULT_CATEGORIES: { name: string; kind: CategoryKind; color: string; icon: string }[] = [
+  { name: 'Salary', kind: 'income', color: '#10b981', icon: 'Briefcase' },
+  { name: 'Freelance', kind: 'income', color: '#06b6d4', icon: 'Laptop' },
+  { name: 'Investment', kind: 'income', color: '#3b82f6', icon: 'TrendingUp' },
+  { name: 'Business', kind: 'income', color: '#8b5cf6', icon: 'Building2' },
+  { name: 'Gift', kind: 'income', color: '#ec4899', icon: 'Gift' },
+  { name: 'Other', kind: 'income', color: '#6b7280', icon: 'Circle' },
+  { name: 'Food', kind: 'expense', color: '#f97316', icon: 'Utensils' },
+  { name: 'Transportation', kind: 'expense', color: '#0ea5e9', icon: 'Car' },
+  { name: 'Housing', kind: 'expense', color: '#6366f1', icon: 'Home' },
+  { name: 'Healthcare', kind: 'expense', color: '#ef4444', icon: 'HeartPulse' },
+  { name: 'Entertainment', kind: 'expense', color: '#a855f7', icon: 'Film' },
+  { name: 'Shopping', kind: 'expense', color: '#eab308', icon: 'ShoppingBag' },
+  { name: 'Utilities', kind: 'expense', color: '#14b8a6', icon: 'Zap' },
+  { name: 'Other', kind: 'expense', color: '#6b7280', icon: 'Circle' },
+];
+
+export function isCategoryKind(kind: unknown): kind is CategoryKind {
+  return kind === 'income' || kind === 'expense';
+}
+
+// Category names are unique per kind, ignoring case and surrounding whitespace
+export function sameCategoryName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Returns the category name together with the names of all of its descendants,
+// which is the set of transaction categories that roll up into it
+export function getCategoryScope(categories: any[], kind: string, name: string): Set<string> {
+  const scope = new Set([name]);
+  const root = categories.find(cat => cat.kind === kind && cat.name === name);
+  if (!root) return scope;
+
+  const pending = [root.id];
+  while (pending.length > 0) {
+    const parentId = pending.pop();
+    for (const child of categories.filter(cat => cat.parentId === parentId)) {
+      scope.add(child.name);
+      pending.push(child.id);
+    }
+  }
+
+  return scope;
+}
+
+// Whether making parentId the parent of the category with the given id would create a cycle
+export function wouldCreateCycle(categories: any[], id: string, parentId: string): boolean {
+  let current = categories.find(cat => cat.id === parentId);
+  while (current) {
+    if (current.id === id) return true;
+    current = current.parentId ? categories.find(cat => cat.id === current.parentId) : undefined;
+  }
+  return false;
+}
@@ -0,0 +1,117 @@
+// Category suggestions from a multinomial naive Bayes model over description tokens, trained on
+// the user's own transactions. Each transaction type has its own model, since income and expense
+// categories are separate. Feedback on suggestions is kept apart from the trained counts, so the
+// counts can be rebuilt from the transactions at any time without losing it.
+
+export interface CategoryCounts {
+  documents: number;
+  tokens: Record<string, number>;
+}
+
+// Token weights per transaction type and category name
+export type CategoryWeights = Record<string, Record<string, CategoryCounts>>;
+
+export interface CategoryModel {
+  // Null once bulk changes have made the counts stale; they are then rebuilt on next use
+  counts: CategoryWeights | null;
+  feedback: CategoryWeights;
+  updatedAt: string;
+}
+
+export interface CategorySuggestion {
+  category: string;
+  probability: number;
+}
+
+// Suggestions at or above this probability are filled in without asking
+export const AUTO_FILL_CONFIDENCE = 0.8;
+
+// Weight of one accepted or rejected suggestion, relative to one saved transaction
+const FEEDBACK_WEIGHT = 0.5;
+
+// A category needs this many transactions before it is suggested at all
+const MIN_DOCUMENTS = 2;
+
+export function emptyCategoryModel(): CategoryModel {
+  return { counts: {}, feedback: {}, updatedAt: new Date().toISOString() };
+}
+
+// Lowercase words and numbers with letters, e.g. "uber", "trip", "7eleven". Plain numbers such
+// as dates and reference numbers differ between transactions and are left out.
+export function tokenize(description: string): string[] {
+  const words = (description || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return [...new Set(words.filter(word => word.length > 1 && !/^\d+$/.test(word)))];
+}
+
+// Transactions that teach the model: income and expenses with a description and a single category
+function isTrainable(transaction: any): boolean {
+  return (transaction.type === 'income' || transaction.type === 'expense') &&
+    !(transaction.splits?.length > 0) && !!transaction.category && tokenize(transaction.description).length > 0;
+}
+
+function addWeight(weights: CategoryWeights, kind: string, category: string, tokens: string[], weight: number) {
+  const counts = ((weights[kind] ??= {})[category] ??= { documents: 0, tokens: {} });
+  counts.documents += weight;
+  for (const token of tokens) {
+    counts.tokens[token] = (counts.tokens[token] || 0) + weight;
+  }
+}
+
+// Adds transactions to the counts, or removes them with a weight of -1
+export function trainCategoryWeights(weights: CategoryWeights, transactions: any[], weight = 1): CategoryWeights {
+  const trained: CategoryWeights = structuredClone(weights);
+  for (const transaction of transactions.filter(isTrainable)) {
+    addWeight(trained, transaction.type, transaction.category, tokenize(transaction.description), weight);
+  }
+  return trained;
+}
+
+// Records that a suggested category was accepted or rejected for a description
+export function recordFeedback(model: CategoryModel, kind: string, category: string, description: string, accepted: boolean): CategoryModel {
+  const feedback: CategoryWeights = structuredClone(model.feedback);
+  const tokens = tokenize(description);
+  if (tokens.length > 0) {
+    addWeight(feedback, kind, category, tokens, accepted ? FEEDBACK_WEIGHT : -FEEDBACK_WEIGHT);
+  }
+  return { ...model, feedback, updatedAt: new Date().toISOString() };
+}
+
+// Ranks the categories for a description, most likely first. Only tokens seen in training
+// count, and there is no suggestion when none of the description's tokens are known.
+export function suggestCategories(model: CategoryModel, kind: string, description: string, limit = 3): CategorySuggestion[] {
+  const counts = model.counts?.[kind] ?? {};
+  const feedback = model.feedback[kind] ?? {};
+
+  // Trained counts with feedback on top; weights never drop below zero
+  const categories = Object.keys(counts)
+    .filter(category => counts[category].documents >= MIN_DOCUMENTS)
+    .map(category => {
+      const tokens: Record<string, number> = { ...counts[category].tokens };
+      for (const [token, weight] of Object.entries(feedback[category]?.tokens ?? {})) {
+        tokens[token] = Math.max(0, (tokens[token] || 0) + weight);
+      }
+      const documents = Math.max(0, counts[category].documents + (feedback[category]?.documents ?? 0));
+      const total = Object.values(tokens).reduce((sum, weight) => sum + weight, 0);
+      return { category, tokens, documents, total };
+    });
+
+  const vocabulary = new Set(categories.flatMap(c => Object.keys(c.tokens).filter(token => c.tokens[token] > 0)));
+  const tokens = tokenize(description).filter(token => vocabulary.has(token));
+  if (tokens.length === 0 || categories.length === 0) return [];
+
+  const documents = categories.reduce((sum, c) => sum + c.documents, 0);
+  const scores = categories.map(c => ({
+    category: c.category,
+    score: Math.log((c.documents + 1) / (documents + categories.length)) +
+      tokens.reduce((sum, token) => sum + Math.log(((c.tokens[token] || 0) + 1) / (c.total + vocabulary.size)), 0),
+  }));
+
+  // Normalize the log scores into probabilities
+  const max = Math.max(...scores.map(s => s.score));
+  const sum = scores.reduce((total, s) => total + Math.exp(s.score - max), 0);
+
+  return scores
+    .map(s => ({ category: s.category, probability: Math.exp(s.score - max) / sum }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, limit);
+}
@@ -0,0 +1,152 @@
+// Duplicate detection for imports. Transactions are fingerprinted by their bank-assigned
+// external id (when they have one) and by date, amount, type and normalized description, and an
+// incoming transaction is a duplicate of an existing one when any fingerprint matches.
+
+export const DUPLICATE_STRATEGIES = ['skip', 'overwrite', 'keep'] as const;
+
+export type DuplicateStrategy = typeof DUPLICATE_STRATEGIES[number];
+
+export interface ImportOutcome {
+  created: number;
+  skipped: number;
+  overwritten: number;
+  kept: number;
+}
+
+export function isDuplicateStrategy(strategy: unknown): strategy is DuplicateStrategy {
+  return DUPLICATE_STRATEGIES.includes(strategy as DuplicateStrategy);
+}
+
+export function emptyOutcome(): ImportOutcome {
+  return { created: 0, skipped: 0, overwritten: 0, kept: 0 };
+}
+
+// Lowercased words and numbers only, so "AMAZON.COM*A1B2  Seattle" and "amazon com a1b2 seattle"
+// compare equal
+export function normalizeDescription(description: unknown): string {
+  return String(description ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function transactionFingerprints(transaction: any): string[] {
+  const fingerprints = [
+    `${transaction.date}|${Math.round(Number(transaction.amount) * 100)}|${transaction.type}|${normalizeDescription(transaction.description)}`
+  ];
+  if (transaction.externalId) {
+    fingerprints.unshift(`external|${transaction.externalAccount ?? ''}|${transaction.externalId}`);
+  }
+  return fingerprints;
+}
+
+// Matches incoming records against existing ones. Each existing record is matched at most once,
+// so two identical purchases on the same day are only treated as duplicates of two existing ones.
+export function createDuplicateMatcher<T extends { id: string }>(existing: T[], fingerprint: (record: T) => string[] = transactionFingerprints) {
+  const index = new Map<string, T[]>();
+  for (const record of existing) {
+    for (const key of fingerprint(record)) {
+      index.set(key, [...(index.get(key) ?? []), record]);
+    }
+  }
+  const matched = new Set<string>();
+
+  // Records that both carry external ids only match on those ids, never on their contents
+  const conflicting = (a: any, b: any) => a.externalId && b.externalId
+    && (a.externalId !== b.externalId || (a.externalAccount ?? '') !== (b.externalAccount ?? ''));
+
+  return (incoming: any): T | null => {
+    for (const key of fingerprint(incoming)) {
+      const match = index.get(key)?.find(record => !matched.has(record.id) && !conflicting(record, incoming));
+      if (match) {
+        matched.add(match.id);
+        return match;
+      }
+    }
+    return null;
+  };
+}
+
+export type ImportAction = 'create' | 'skip' | 'overwrite' | 'keep';
+
+export interface ImportPlan {
+  // Records to write, keyed by their own id; overwritten records keep the id of the one they replace
+  records: any[];
+  outcome: ImportOutcome;
+  // What happens to each incoming record, by incoming id
+  actions: Map<string, { action: ImportAction; duplicateOf?: string }>;
+}
+
+// Decides what to do with each incoming transaction without writing anything. Both legs of a
+// transfer follow the decision made for the outgoing leg, and transfers are never overwritten
+// since that would unlink their legs.
+export function planTransactionImport(existing: any[], incoming: any[], strategy: DuplicateStrategy, now: string): ImportPlan {
+  const plan: ImportPlan = { records: [], outcome: emptyOutcome(), actions: new Map() };
+  const matchDuplicate = createDuplicateMatcher(existing);
+  const transferDecisions = new Map<string, { action: ImportAction; duplicateOf?: string }>();
+
+  const ordered = [...incoming].sort((a, b) => (a.transferDirection === 'in' ? 1 : 0) - (b.transferDirection === 'in' ? 1 : 0));
+  for (const transaction of ordered) {
+    const decided = transaction.transferId && transferDecisions.get(transaction.transferId);
+    if (decided) {
+      plan.actions.set(transaction.id, decided);
+      if (decided.action !== 'skip') {
+        plan.records.push(decided.duplicateOf ? { ...transaction, duplicateOf: decided.duplicateOf } : transaction);
+      }
+      continue;
+    }
+
+    const duplicate = matchDuplicate(transaction);
+    let decision: { action: ImportAction; duplicateOf?: string };
+    if (!duplicate) {
+      decision = { action: 'create' };
+      plan.records.push(transaction);
+      plan.outcome.created++;
+    } else if (strategy === 'keep') {
+      decision = { action: 'keep', duplicateOf: duplicate.id };
+      plan.records.push({ ...transaction, duplicateOf: duplicate.id });
+      plan.outcome.kept++;
+    } else if (strategy === 'overwrite' && !transaction.transferId && !duplicate.transferId) {
+      decision = { action: 'overwrite', duplicateOf: duplicate.id };
+      plan.records.push({ ...duplicate, ...transaction, id: duplicate.id, createdAt: duplicate.createdAt, updatedAt: now });
+      plan.outcome.overwritten++;
+    } else {
+      decision = { action: 'skip', duplicateOf: duplicate.id };
+      plan.outcome.skipped++;
+    }
+
+    plan.actions.set(transaction.id, decision);
+    if (transaction.transferId) transferDecisions.set(transaction.transferId, decision);
+  }
+
+  return plan;
+}
+
+// Same as planTransactionImport for budgets, where a budget for the same category and period
+// is a duplicate
+export function planBudgetImport(existing: any[], incoming: any[], strategy: DuplicateStrategy, now: string): ImportPlan {
+  const plan: ImportPlan = { records: [], outcome: emptyOutcome(), actions: new Map() };
+  const matchDuplicate = createDuplicateMatcher(existing, budget => [`${budget.category}|${budget.period}`]);
+
+  for (const budget of incoming) {
+    const duplicate = matchDuplicate(budget);
+    if (!duplicate) {
+      plan.actions.set(budget.id, { action: 'create' });
+      plan.records.push(budget);
+      plan.outcome.created++;
+    } else if (strategy === 'skip') {
+      plan.actions.set(budget.id, { action: 'skip', duplicateOf: duplicate.id });
+      plan.outcome.skipped++;
+    } else if (strategy === 'overwrite') {
+      plan.actions.set(budget.id, { action: 'overwrite', duplicateOf: duplicate.id });
+      plan.records.push({ ...duplicate, ...budget, id: duplicate.id, createdAt: duplicate.createdAt, updatedAt: now });
+      plan.outcome.overwritten++;
+    } else {
+      plan.actions.set(budget.id, { action: 'keep', duplicateOf: duplicate.id });
+      plan.records.push(budget);
+      plan.outcome.kept++;
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,296 @@
+// Versioned format of the JSON export. Each version has a schema that files stamped with it are
+// checked against, and every version but the current one has a migration to the next version,
+// so a backup written by any earlier release is upgraded step by step and stays restorable.
+// Records may carry fields beyond those in the schemas (ids of the owner, timestamps, ...).
+
+import { ACCOUNT_TYPES } from './accounts.tsx';
+
+export const CURRENT_EXPORT_VERSION = '3.0';
+
+export interface SchemaIssue {
+  // Location of the problem in the file, e.g. `transactions[3].amount`
+  path: string;
+  message: string;
+}
+
+type Schema = { optional?: boolean; nullable?: boolean } & (
+  | { type: 'string'; values?: readonly string[] }
+  | { type: 'number' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: Record<string, Schema> }
+);
+
+// Files with more problems than this are reported with the first ones only
+const MAX_ISSUES = 20;
+
+const string = (options: { values?: readonly string[]; optional?: boolean; nullable?: boolean } = {}): Schema => ({ type: 'string', ...options });
+const number = (options: { optional?: boolean; nullable?: boolean } = {}): Schema => ({ type: 'number', ...options });
+const array = (items: Schema, options: { optional?: boolean } = {}): Schema => ({ type: 'array', items, ...options });
+const object = (properties: Record<string, Schema>, options: { optional?: boolean } = {}): Schema => ({ type: 'object', properties, ...options });
+
+const SPLIT = object({
+  category: string(),
+  amount: number(),
+  memo: string({ optional: true, nullable: true }),
+});
+
+// 1.0 is every export written before versions were checked. It was stamped on files from the
+// first release onwards, so tags, splits, accounts and currencies appear on some of its
+// transactions and not on others.
+const SCHEMA_1_0 = object({
+  version: string(),
+  exportDate: string({ optional: true }),
+  transactions: array(object({
+    id: string({ optional: true }),
+    amount: number(),
+    type: string({ values: ['income', 'expense', 'transfer'] }),
+    category: string(),
+    description: string({ optional: true, nullable: true }),
+    date: string(),
+    tags: array(string(), { optional: true }),
+    splits: array(SPLIT, { optional: true }),
+    accountId: string({ optional: true, nullable: true }),
+    currency: string({ optional: true, nullable: true }),
+  })),
+  budgets: array(object({
+    id: string({ optional: true }),
+    category: string(),
+    amount: number(),
+    period: string({ values: ['monthly', 'weekly'] }),
+  })),
+});
+
+// 2.0 adds the accounts and categories that transactions refer to, and writes every
+// transaction field
+const SCHEMA_2_0 = object({
+  version: string(),
+  exportDate: string(),
+  transactions: array(object({
+    id: string(),
+    amount: number(),
+    type: string({ values: ['income', 'expense', 'transfer'] }),
+    category: string(),
+    description: string({ nullable: true }),
+    date: string(),
+    tags: array(string()),
+    splits: array(SPLIT),
+    accountId: string({ nullable: true }),
+    currency: string({ nullable: true }),
+    transferId: string({ optional: true }),
+    transferDirection: string({ values: ['in', 'out'], optional: true }),
+    linkedTransactionId: string({ optional: true }),
+    counterpartAccountId: string({ optional: true, nullable: true }),
+  })),
+  budgets: array(object({
+    id: string(),
+    category: string(),
+    amount: number(),
+    period: string({ values: ['monthly', 'weekly'] }),
+    alertThresholds: array(number(), { optional: true }),
+  })),
+  accounts: array(object({
+    id: string(),
+    name: string(),
+    type: string({ values: ACCOUNT_TYPES }),
+    openingBalance: number(),
+  })),
+  categories: array(object({
+    id: string(),
+    name: string(),
+    kind: string({ values: ['income', 'expense'] }),
+    color: string({ optional: true }),
+    icon: string({ optional: true }),
+    parentId: string({ nullable: true }),
+  })),
+});
+
+// 3.0 adds payees and the payee of each transaction
+const SCHEMA_3_0 = object({
+  version: string(),
+  exportDate: string(),
+  transactions: array(object({
+    id: string(),
+    amount: number(),
+    type: string({ values: ['income', 'expense', 'transfer'] }),
+    category: string(),
+    description: string({ nullable: true }),
+    date: string(),
+    tags: array(string()),
+    splits: array(SPLIT),
+    accountId: string({ nullable: true }),
+    currency: string({ nullable: true }),
+    payeeId: string({ nullable: true }),
+    transferId: string({ optional: true }),
+    transferDirection: string({ values: ['in', 'out'], optional: true }),
+    linkedTransactionId: string({ optional: true }),
+    counterpartAccountId: string({ optional: true, nullable: true }),
+  })),
+  budgets: array(object({
+    id: string(),
+    category: string(),
+    amount: number(),
+    period: string({ values: ['monthly', 'weekly'] }),
+    alertThresholds: array(number(), { optional: true }),
+  })),
+  accounts: array(object({
+    id: string(),
+    name: string(),
+    type: string({ values: ACCOUNT_TYPES }),
+    openingBalance: number(),
+  })),
+  categories: array(object({
+    id: string(),
+    name: string(),
+    kind: string({ values: ['income', 'expense'] }),
+    color: string({ optional: true }),
+    icon: string({ optional: true }),
+    parentId: string({ nullable: true }),
+  })),
+  payees: array(object({
+    id: string(),
+    name: string(),
+    aliases: array(string()),
+    defaultCategory: string({ nullable: true }),
+  })),
+});
+
+const SCHEMAS: Record<string, Schema> = {
+  '1.0': SCHEMA_1_0,
+  '2.0': SCHEMA_2_0,
+  '3.0': SCHEMA_3_0,
+};
+
+// A transaction as written to a file of the current version. Records stored before a field was introduced lack it,
+// so the field is filled in with the value that stood for it at the time.
+export function exportTransaction(transaction: any): any {
+  return {
+    ...transaction,
+    description: transaction.description ?? null,
+    tags: transaction.tags ?? [],
+    splits: transaction.splits ?? [],
+    accountId: transaction.accountId ?? null,
+    currency: transaction.currency ?? null,
+    payeeId: transaction.payeeId ?? null,
+  };
+}
+
+// Migrations from each version to the next one
+const MIGRATIONS: Record<string, { to: string; migrate: (data: any) => any }> = {
+  '1.0': {
+    to: '2.0',
+    migrate: (data) => ({
+      ...data,
+      version: '2.0',
+      exportDate: data.exportDate ?? new Date(0).toISOString(),
+      transactions: data.transactions.map((transaction: any, index: number) => ({
+        ...exportTransaction(transaction),
+        id: transaction.id ?? `import-${index}`,
+      })),
+      budgets: data.budgets.map((budget: any, index: number) => ({
+        ...budget,
+        id: budget.id ?? `import-budget-${index}`,
+      })),
+      accounts: [],
+      categories: [],
+    }),
+  },
+  '2.0': {
+    to: '3.0',
+    migrate: (data) => ({
+      ...data,
+      version: '3.0',
+      transactions: data.transactions.map((transaction: any) => ({
+        ...transaction,
+        payeeId: transaction.payeeId ?? null,
+      })),
+      payees: [],
+    }),
+  },
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function check(schema: Schema, value: unknown, path: string, issues: SchemaIssue[]) {
+  if (issues.length >= MAX_ISSUES) return;
+
+  if (value === undefined) {
+    if (!schema.optional) issues.push({ path, message: 'is missing' });
+    return;
+  }
+  if (value === null) {
+    if (!schema.nullable) issues.push({ path, message: 'must not be null' });
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected text, got ${describe(value)}` });
+      } else if (schema.values && !schema.values.includes(value)) {
+        issues.push({ path, message: `expected one of ${schema.values.join(', ')}, got "${value}"` });
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `expected a number, got ${describe(value)}` });
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected a list, got ${describe(value)}` });
+        break;
+      }
+      value.forEach((item, index) => check(schema.items, item, `${path}[${index}]`, issues));
+      break;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` });
+        break;
+      }
+      for (const [key, property] of Object.entries(schema.properties)) {
+        check(property, (value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+      }
+      break;
+  }
+}
+
+export function isExportVersion(version: unknown): version is string {
+  return typeof version === 'string' && version in SCHEMAS;
+}
+
+// Checks a file against the schema of the version it is stamped with
+export function validateExport(data: any): SchemaIssue[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return [{ path: '', message: `expected an object, got ${describe(data)}` }];
+  }
+  if (!isExportVersion(data.version)) {
+    return [{ path: 'version', message: `unsupported export version ${JSON.stringify(data.version) ?? '(none)'}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  check(SCHEMAS[data.version], data, '', issues);
+  return issues;
+}
+
+// Validates an export and upgrades it to the current version. Each intermediate version is
+// validated too, so a faulty migration is caught rather than imported.
+export function upgradeExport(data: any): { data?: any; from?: string; issues?: SchemaIssue[] } {
+  const issues = validateExport(data);
+  if (issues.length > 0) return { issues };
+
+  const from = data.version;
+  let current = data;
+  while (current.version !== CURRENT_EXPORT_VERSION) {
+    current = MIGRATIONS[current.version].migrate(current);
+    const migrationIssues = validateExport(current);
+    if (migrationIssues.length > 0) {
+      return { issues: migrationIssues.map(issue => ({ ...issue, message: `${issue.message} (after upgrading to ${current.version})` })) };
+    }
+  }
+
+  return { data: current, from };
+}
@@ -0,0 +1,210 @@
+// Row-level validation of imported transactions and budgets. Each row is checked on its own and
+// reported with errors, which keep the row out of the import, and warnings, which describe a
+// substitution or something worth a second look. Rows are numbered from 1 in file order.
+
+import { RateTable, isCurrencyCode, rateFor } from '../_shared/currency.tsx';
+import { SPLIT_CATEGORY, normalizeSplits, validateSplits } from '../_shared/splits.tsx';
+import { sameCategoryName } from './categories.tsx';
+
+export interface RowIssue {
+  field: string;
+  message: string;
+}
+
+export interface ValidatedRow {
+  row: number;
+  // The cleaned record, or null when the row has errors
+  record: any | null;
+  errors: RowIssue[];
+  warnings: RowIssue[];
+}
+
+export interface ImportContext {
+  categories: { name: string; kind: string }[];
+  accountIds: Set<string>;
+  table: RateTable;
+  today: string;
+}
+
+const TRANSACTION_TYPES = ['income', 'expense', 'transfer'];
+const BUDGET_PERIODS = ['monthly', 'weekly'];
+
+// Rows without a category are filed here, as the CSV and OFX imports do
+const FALLBACK_CATEGORY = 'Other';
+
+export function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Strict number parsing: unlike parseFloat, "12abc" and "" are rejected rather than read as 12 and NaN
+function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const amount = Number(value.trim());
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function hasCategory(context: ImportContext, kind: string, name: string): boolean {
+  return context.categories.some(category => category.kind === kind && sameCategoryName(category.name, name));
+}
+
+export function validateImportedTransaction(raw: any, row: number, context: ImportContext): ValidatedRow {
+  const errors: RowIssue[] = [];
+  const warnings: RowIssue[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { row, record: null, errors: [{ field: 'row', message: 'Row is not a transaction object' }], warnings };
+  }
+
+  if (raw.date === undefined || raw.date === null || raw.date === '') {
+    errors.push({ field: 'date', message: 'Date is missing' });
+  } else if (!isCalendarDate(raw.date)) {
+    errors.push({ field: 'date', message: `"${raw.date}" is not a valid YYYY-MM-DD date` });
+  } else if (raw.date > context.today) {
+    warnings.push({ field: 'date', message: 'Date is in the future' });
+  }
+
+  const amount = parseAmount(raw.amount);
+  if (raw.amount === undefined || raw.amount === null || raw.amount === '') {
+    errors.push({ field: 'amount', message: 'Amount is missing' });
+  } else if (amount === null) {
+    errors.push({ field: 'amount', message: `"${raw.amount}" is not a number` });
+  } else if (amount < 0) {
+    errors.push({ field: 'amount', message: 'Amount is negative; the type marks income or expense' });
+  } else if (amount === 0) {
+    warnings.push({ field: 'amount', message: 'Amount is zero' });
+  }
+
+  if (!TRANSACTION_TYPES.includes(raw.type)) {
+    errors.push({
+      field: 'type',
+      message: raw.type ? `Unknown type "${raw.type}", expected income, expense or transfer` : 'Type is missing'
+    });
+  }
+
+  let currency = context.table.baseCurrency;
+  if (raw.currency !== undefined && raw.currency !== null && raw.currency !== '') {
+    const code = String(raw.currency).trim().toUpperCase();
+    if (!isCurrencyCode(code)) {
+      errors.push({ field: 'currency', message: `"${raw.currency}" is not a three-letter currency code` });
+    } else {
+      currency = code;
+      if (rateFor(context.table, code) === null) {
+        warnings.push({ field: 'currency', message: `No exchange rate for ${code}; totals count it unconverted until one is added` });
+      }
+    }
+  }
+
+  let splits: any[] = [];
+  if (Array.isArray(raw.splits) && raw.splits.length > 0 && amount !== null) {
+    const splitError = validateSplits(raw.splits, amount);
+    if (splitError) {
+      errors.push({ field: 'splits', message: splitError });
+    } else {
+      splits = normalizeSplits(raw.splits);
+    }
+  }
+
+  let category = typeof raw.category === 'string' ? raw.category.trim() : '';
+  if (raw.type === 'transfer') {
+    category = 'Transfer';
+  } else if (splits.length > 0) {
+    category = SPLIT_CATEGORY;
+    for (const split of splits) {
+      if (!hasCategory(context, raw.type, split.category)) {
+        warnings.push({ field: 'splits', message: `Category "${split.category}" does not exist` });
+      }
+    }
+  } else if (!category) {
+    category = FALLBACK_CATEGORY;
+    warnings.push({ field: 'category', message: `Category is missing; filed under "${FALLBACK_CATEGORY}"` });
+  } else if (TRANSACTION_TYPES.includes(raw.type) && !hasCategory(context, raw.type, category)) {
+    warnings.push({ field: 'category', message: `Category "${category}" does not exist` });
+  }
+
+  // A transfer leg has no meaning without the account the money moves out of or into
+  let accountId = raw.accountId || null;
+  if (raw.type === 'transfer' && !accountId) {
+    errors.push({ field: 'accountId', message: 'Account is missing; a transfer needs one' });
+  } else if (accountId && !context.accountIds.has(accountId)) {
+    if (raw.type === 'transfer') {
+      errors.push({ field: 'accountId', message: 'Account not found' });
+    } else {
+      warnings.push({ field: 'accountId', message: 'Account not found; imported without an account' });
+      accountId = null;
+    }
+  }
+
+  const description = typeof raw.description === 'string' ? raw.description.trim() : '';
+  if (!description) {
+    warnings.push({ field: 'description', message: 'Description is missing' });
+  }
+
+  if (errors.length > 0) {
+    return { row, record: null, errors, warnings };
+  }
+
+  return {
+    row,
+    record: { ...raw, amount, currency, category, description, accountId, splits },
+    errors,
+    warnings
+  };
+}
+
+// A transfer is imported as both of its legs or not at all, so a leg whose other leg has errors
+// is turned into an error row too. `raws` are the rows as they appear in the file.
+export function rejectOrphanedTransferLegs(rows: ValidatedRow[], raws: any[]): ValidatedRow[] {
+  const invalid = rows.filter(row => !row.record).map(row => raws[row.row - 1]).filter(raw => raw && typeof raw === 'object');
+  const invalidIds = new Set(invalid.map(raw => raw.id).filter(Boolean));
+  const partnersOfInvalid = new Set(invalid.map(raw => raw.linkedTransactionId).filter(Boolean));
+  const invalidTransfers = new Set(invalid.map(raw => raw.transferId).filter(Boolean));
+
+  return rows.map(row => {
+    const raw = raws[row.row - 1];
+    if (!row.record || raw.type !== 'transfer') return row;
+    const orphaned = invalidIds.has(raw.linkedTransactionId)
+      || partnersOfInvalid.has(raw.id)
+      || invalidTransfers.has(raw.transferId);
+    if (!orphaned) return row;
+
+    return {
+      ...row,
+      record: null,
+      errors: [...row.errors, { field: 'linkedTransactionId', message: 'The other leg of this transfer is invalid' }]
+    };
+  });
+}
+
+export function validateImportedBudget(raw: any, row: number, context: ImportContext): ValidatedRow {
+  const errors: RowIssue[] = [];
+  const warnings: RowIssue[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { row, record: null, errors: [{ field: 'row', message: 'Row is not a budget object' }], warnings };
+  }
+
+  const category = typeof raw.category === 'string' ? raw.category.trim() : '';
+  if (!category) {
+    errors.push({ field: 'category', message: 'Category is missing' });
+  } else if (!hasCategory(context, 'expense', category)) {
+    warnings.push({ field: 'category', message: `Category "${category}" does not exist` });
+  }
+
+  const amount = parseAmount(raw.amount);
+  if (amount === null) {
+    errors.push({ field: 'amount', message: raw.amount === undefined || raw.amount === '' ? 'Amount is missing' : `"${raw.amount}" is not a number` });
+  } else if (amount <= 0) {
+    errors.push({ field: 'amount', message: 'Amount must be greater than zero' });
+  }
+
+  if (!BUDGET_PERIODS.includes(raw.period)) {
+    errors.push({ field: 'period', message: raw.period ? `Unknown period "${raw.period}", expected monthly or weekly` : 'Period is missing' });
+  }
+
+  if (errors.length > 0) {
+    return { row, record: null, errors, warnings };
+  }
+
+  return { row, record: { ...raw, category, amount }, errors, warnings };
+}
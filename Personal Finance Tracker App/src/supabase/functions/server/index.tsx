@@ -3,6 +3,30 @@ import { cors } from 'npm:hono/cors';
 import { logger } from 'npm:hono/logger';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import * as kv from './kv_store.tsx';
+import { parseTransactionQuery, queryTransactions } from './transaction_query.tsx';
+import { BudgetPeriod, getPeriodWindow, getPeriodWindows, getPeriodWindowsBetween, isWithinWindow, overlapDays, PeriodWindow } from './periods.tsx';
+import { AccountType, balanceEffect, calculateAccountBalance, calculateRunningBalances, isAccountType } from './accounts.tsx';
+import { DEFAULT_CATEGORIES, getCategoryScope, isCategoryKind, sameCategoryName, wouldCreateCycle } from './categories.tsx';
+import { addMonths, billDueDate, billStatus, isBillMonth, isDueDay, monthOf } from './bills.tsx';
+import { addDays, isRecurringFrequency, isRecurringMode, nextOccurrence, occurrencesBetween } from './recurring.tsx';
+import { DEFAULT_BASE_CURRENCY, RateTable, formatCurrency, isCurrencyCode, isValidRate, missingRates, parseRateFile, rebaseRates, toBaseAmount, toBaseTransaction } from '../_shared/currency.tsx';
+import { SPLIT_CATEGORY, categoryAmounts, normalizeSplits, transactionCategories, validateSplits } from '../_shared/splits.tsx';
+import { DEFAULT_PREFERENCES, Preferences, buildPreferences, todayIn } from '../_shared/preferences.tsx';
+import { CsvImportProfile, EMPTY_COLUMN_MAPPING, validateCsvProfile } from '../_shared/csv_import.tsx';
+import { OfxStatement, parseOfx } from './ofx.tsx';
+import { QifExportAccount, QifTransaction, buildQif, parseQif } from './qif.tsx';
+import { DuplicateStrategy, ImportOutcome, isDuplicateStrategy, planBudgetImport, planTransactionImport } from './dedupe.tsx';
+import { ImportContext, isCalendarDate, rejectOrphanedTransferLegs, validateImportedBudget, validateImportedTransaction } from './import_validation.tsx';
+import { CURRENT_EXPORT_VERSION, exportTransaction, upgradeExport } from './export_schema.tsx';
+import { buildCsv, buildSpreadsheet, buildXlsx } from './spreadsheet.tsx';
+import { isExportFormat, parseExportColumns } from '../_shared/transaction_export.tsx';
+import { categoryTotals, largestTransactions, payeeTotals, rollUpCategoryTotals, summarizeTransactions } from '../_shared/aggregations.tsx';
+import { createFormatter } from '../_shared/format.tsx';
+import { StatementReport, buildStatementPdf } from './statement_pdf.tsx';
+import { CategorizationRule, RuleContext, applyRules, hasActions, hasConditions, isValidPattern } from './rules.tsx';
+import { AUTO_FILL_CONFIDENCE, CategoryModel, emptyCategoryModel, recordFeedback, suggestCategories, trainCategoryWeights } from './category_model.tsx';
+import { findPayee, linkPayees, normalizeAliases, payeeKey, payeeKeys } from './payees.tsx';
+import { MAX_ATTACHMENT_SIZE, attachmentPath, cleanFileName, createAttachmentStorage, detectAttachmentType, inlineDisposition } from './attachments.tsx';
 
 const app = new Hono();
 
@@ -20,6 +44,8 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
 );
 
+const attachmentStorage = createAttachmentStorage(supabase);
+
 // Helper function to get user ID from access token
 async function getUserId(request: Request): Promise<string | null> {
   const accessToken = request.headers.get('Authorization')?.split(' ')[1];
@@ -72,8 +98,37 @@ app.get('/make-server-8b4b78bc/transactions', async (c) => {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
+    const { query, error } = parseTransactionQuery(c.req.query());
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    // Post any recurring transactions that have come due since the last visit
+    await processRecurringRules(userId);
+
     const transactions = await kv.getByPrefix(`transaction:${userId}:`);
-    return c.json(transactions || []);
+    const result = queryTransactions(transactions || [], query!);
+
+    // Include how many files are attached to each transaction
+    const attachments = await kv.getByPrefix(`attachment:${userId}:`) || [];
+    if (attachments.length > 0) {
+      const counts = attachments.reduce((acc, attachment) => {
+        acc[attachment.transactionId] = (acc[attachment.transactionId] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+      result.transactions = result.transactions.map(t => counts[t.id] ? { ...t, attachmentCount: counts[t.id] } : t);
+    }
+
+    // When listing a single account, include the account balance after each transaction
+    if (query!.accountId) {
+      const account = await kv.get(`account:${userId}:${query!.accountId}`);
+      if (account) {
+        const runningBalances = calculateRunningBalances(account, await getBaseTransactions(userId));
+        result.transactions = result.transactions.map(t => ({ ...t, runningBalance: runningBalances.get(t.id) }));
+      }
+    }
+
+    return c.json(result);
   } catch (error) {
     console.log('Error fetching transactions:', error);
     return c.json({ error: 'Failed to fetch transactions' }, 500);
@@ -87,26 +142,92 @@ app.post('/make-server-8b4b78bc/transactions', async (c) => {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    const { amount, type, category, description, date } = await c.req.json();
+    const body = await c.req.json();
+    const { amount, type, category, description, date, tags, accountId, splits, billId, billMonth, payeeId } = body;
+
+    const { currency, error: currencyError } = await resolveCurrency(userId, body.currency);
+    if (currencyError) {
+      return c.json({ error: currencyError }, 400);
+    }
+
+    // Transfers are stored as a linked pair: one leg leaving the source account and one entering the destination
+    if (type === 'transfer') {
+      const { legs, error } = await buildTransferLegs(userId, { ...body, currency });
+      if (error) {
+        return c.json({ error }, 400);
+      }
+
+      await kv.mset(legs!.map(leg => `transaction:${userId}:${leg.id}`), legs!);
+      return c.json(legs![0]);
+    }
+
+    if (accountId && !(await kv.get(`account:${userId}:${accountId}`))) {
+      return c.json({ error: 'Account not found' }, 400);
+    }
+
+    if (payeeId && !(await kv.get(`payee:${userId}:${payeeId}`))) {
+      return c.json({ error: 'Payee not found' }, 400);
+    }
+
+    const split = resolveSplits(splits, parseFloat(amount));
+    if (split.error) {
+      return c.json({ error: split.error }, 400);
+    }
+
+    // Paying a bill records the expense and marks the bill paid for that month
+    const bill = billId ? await kv.get(`bill:${userId}:${billId}`) : null;
+    if (billId) {
+      if (!bill) {
+        return c.json({ error: 'Bill not found' }, 400);
+      }
+      if (type !== 'expense' || !isBillMonth(billMonth)) {
+        return c.json({ error: 'A bill payment must be an expense with a YYYY-MM billMonth' }, 400);
+      }
+      if (bill.payments?.[billMonth]) {
+        return c.json({ error: 'This bill is already paid for that month' }, 409);
+      }
+    }
     
-    const transaction = {
+    // The payee named by the description supplies a missing category, then categorization
+    // rules may set the category, description and account where the user left them empty, and add tags.
+    // A category the user picked is marked so that running the rules later leaves it alone too.
+    const [linked] = await assignPayees(userId, [{
       id: generateId(),
       amount: parseFloat(amount),
+      currency,
       type,
-      category,
+      category: split.splits ? SPLIT_CATEGORY : category,
       description,
       date,
+      tags: normalizeTags(tags),
+      accountId: accountId || null,
+      payeeId: payeeId || null,
+      splits: split.splits ?? [],
+      ...(category && !split.splits ? { manualCategory: true } : {}),
+      ...(bill ? { billId, billMonth } : {}),
       userId,
       createdAt: new Date().toISOString()
-    };
+    }], t => !t.category);
+    const userFields = ['category', 'description', 'accountId'].filter(field => !!body[field]);
+    const { transaction } = applyRules(linked, await getRules(userId), await getRuleContext(userId), userFields);
 
-    await kv.set(`transaction:${userId}:${transaction.id}`, transaction);
+    if (bill) {
+      const payment = { transactionId: transaction.id, amount: transaction.amount, date, paidAt: transaction.createdAt };
+      await kv.mset(
+        [`transaction:${userId}:${transaction.id}`, `bill:${userId}:${bill.id}`],
+        [transaction, { ...bill, payments: { ...bill.payments, [billMonth]: payment } }]
+      );
+    } else {
+      await kv.set(`transaction:${userId}:${transaction.id}`, transaction);
+    }
     
-    // Update budget spending if it's an expense
+    // Check budget alert thresholds if it's an expense
     if (type === 'expense') {
-      await updateBudgetSpending(userId, category, parseFloat(amount));
+      await updateBudgetSpending(userId, transactionCategories(transaction), date);
     }
 
+    await updateCategoryModel(userId, [], [transaction]);
+
     return c.json(transaction);
   } catch (error) {
     console.log('Error creating transaction:', error);
@@ -122,7 +243,8 @@ app.put('/make-server-8b4b78bc/transactions/:id', async (c) => {
     }
 
     const id = c.req.param('id');
-    const { amount, type, category, description, date } = await c.req.json();
+    const body = await c.req.json();
+    const { amount, type, category, description, date, tags, accountId, splits, payeeId } = body;
     
     // Get existing transaction to check ownership and old amount
     const existingTransaction = await kv.get(`transaction:${userId}:${id}`);
@@ -130,26 +252,76 @@ app.put('/make-server-8b4b78bc/transactions/:id', async (c) => {
       return c.json({ error: 'Transaction not found' }, 404);
     }
 
-    const updatedTransaction = {
+    const { currency, error: currencyError } = await resolveCurrency(userId, body.currency, existingTransaction.currency);
+    if (currencyError) {
+      return c.json({ error: currencyError }, 400);
+    }
+
+    if ((existingTransaction.type === 'transfer') !== (type === 'transfer')) {
+      return c.json({ error: 'A transfer cannot be changed into income or an expense, or the other way around' }, 400);
+    }
+
+    // Updating either leg of a transfer rewrites both
+    if (type === 'transfer') {
+      const linkedTransaction = await kv.get(`transaction:${userId}:${existingTransaction.linkedTransactionId}`);
+      const existingLegs = existingTransaction.transferDirection === 'out'
+        ? [existingTransaction, linkedTransaction]
+        : [linkedTransaction, existingTransaction];
+
+      const { legs, error } = await buildTransferLegs(userId, { ...body, currency }, existingLegs);
+      if (error) {
+        return c.json({ error }, 400);
+      }
+
+      await kv.mset(legs!.map(leg => `transaction:${userId}:${leg.id}`), legs!);
+      return c.json(legs!.find(leg => leg.id === id));
+    }
+
+    if (accountId && !(await kv.get(`account:${userId}:${accountId}`))) {
+      return c.json({ error: 'Account not found' }, 400);
+    }
+
+    if (payeeId && !(await kv.get(`payee:${userId}:${payeeId}`))) {
+      return c.json({ error: 'Payee not found' }, 400);
+    }
+
+    // Leaving splits out keeps the existing lines, an empty list removes them
+    const split = resolveSplits(splits === undefined ? existingTransaction.splits : splits, parseFloat(amount));
+    if (split.error) {
+      return c.json({ error: split.error }, 400);
+    }
+
+    let updatedTransaction = {
       ...existingTransaction,
       amount: parseFloat(amount),
+      currency,
       type,
-      category,
+      category: split.splits ? SPLIT_CATEGORY : category,
       description,
       date,
+      tags: normalizeTags(tags ?? existingTransaction.tags),
+      accountId: accountId === undefined ? existingTransaction.accountId ?? null : accountId || null,
+      splits: split.splits ?? [],
+      ...(!split.splits && category !== existingTransaction.category ? { manualCategory: true } : {}),
       updatedAt: new Date().toISOString()
     };
 
+    // A payeeId sets or clears the payee; otherwise a new description is matched to its payee again
+    if (payeeId !== undefined) {
+      updatedTransaction.payeeId = payeeId || null;
+    } else if (description !== existingTransaction.description || updatedTransaction.payeeId === undefined) {
+      [updatedTransaction] = await assignPayees(userId, [{ ...updatedTransaction, payeeId: null }], () => false);
+    }
+
     await kv.set(`transaction:${userId}:${id}`, updatedTransaction);
     
-    // Update budget spending
-    if (existingTransaction.type === 'expense') {
-      await updateBudgetSpending(userId, existingTransaction.category, -existingTransaction.amount);
-    }
+    // Check budget alert thresholds for the updated expense
     if (type === 'expense') {
-      await updateBudgetSpending(userId, category, parseFloat(amount));
+      await updateBudgetSpending(userId, transactionCategories(updatedTransaction), date);
     }
 
+    await updateCategoryModel(userId, [existingTransaction], [updatedTransaction]);
+
     return c.json(updatedTransaction);
   } catch (error) {
     console.log('Error updating transaction:', error);
@@ -172,11 +344,26 @@ app.delete('/make-server-8b4b78bc/transactions/:id', async (c) => {
       return c.json({ error: 'Transaction not found' }, 404);
     }
 
-    await kv.del(`transaction:${userId}:${id}`);
-    
-    // Update budget spending if it was an expense
-    if (existingTransaction.type === 'expense') {
-      await updateBudgetSpending(userId, existingTransaction.category, -existingTransaction.amount);
+    // Deleting either leg of a transfer deletes both
+    if (existingTransaction.type === 'transfer' && existingTransaction.linkedTransactionId) {
+      await kv.mdel([
+        `transaction:${userId}:${id}`,
+        `transaction:${userId}:${existingTransaction.linkedTransactionId}`
+      ]);
+      await deleteAttachments(userId, [id, existingTransaction.linkedTransactionId]);
+    } else {
+      await kv.del(`transaction:${userId}:${id}`);
+      await deleteAttachments(userId, [id]);
+      await updateCategoryModel(userId, [existingTransaction], []);
+    }
+
+    // Deleting a bill payment marks the bill unpaid again
+    if (existingTransaction.billId) {
+      const bill = await kv.get(`bill:${userId}:${existingTransaction.billId}`);
+      if (bill?.payments?.[existingTransaction.billMonth]?.transactionId === id) {
+        const { [existingTransaction.billMonth]: _removed, ...payments } = bill.payments;
+        await kv.set(`bill:${userId}:${bill.id}`, { ...bill, payments });
+      }
     }
 
     return c.json({ success: true });
@@ -186,65 +373,183 @@ app.delete('/make-server-8b4b78bc/transactions/:id', async (c) => {
   }
 });
 
-// Budget Routes
-app.get('/make-server-8b4b78bc/budgets', async (c) => {
+// Attachment Routes
+app.get('/make-server-8b4b78bc/transactions/:id/attachments', async (c) => {
   try {
     const userId = await getUserId(c.req.raw);
     if (!userId) {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    const budgets = await kv.getByPrefix(`budget:${userId}:`);
-    
-    // Calculate spending for each budget
-    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
-    const budgetsWithSpending = (budgets || []).map(budget => {
-      const categorySpending = transactions
-        .filter(t => t.type === 'expense' && t.category === budget.category)
-        .reduce((sum, t) => sum + t.amount, 0);
-      
-      return {
-        ...budget,
-        spent: categorySpending,
-        remaining: budget.amount - categorySpending
-      };
+    const id = c.req.param('id');
+    if (!(await kv.get(`transaction:${userId}:${id}`))) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    const attachments = (await kv.getByPrefix(`attachment:${userId}:`) || [])
+      .filter(attachment => attachment.transactionId === id)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    return c.json(attachments);
+  } catch (error) {
+    console.log('Error fetching attachments:', error);
+    return c.json({ error: 'Failed to fetch attachments' }, 500);
+  }
+});
+
+// Uploads an image or PDF as multipart form data with the file in the `file` field
+app.post('/make-server-8b4b78bc/transactions/:id/attachments', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    if (!(await kv.get(`transaction:${userId}:${id}`))) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    const { file } = await c.req.parseBody();
+    if (!(file instanceof File) || file.size === 0) {
+      return c.json({ error: 'Choose a file to attach' }, 400);
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return c.json({ error: `Attachments can be at most ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB` }, 413);
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const contentType = detectAttachmentType(data);
+    if (!contentType) {
+      return c.json({ error: 'Only images (JPEG, PNG, GIF, WebP) and PDFs can be attached' }, 400);
+    }
+
+    const attachmentId = generateId();
+    const attachment = {
+      id: attachmentId,
+      transactionId: id,
+      fileName: cleanFileName(file.name),
+      contentType,
+      size: data.length,
+      path: attachmentPath(userId, id, attachmentId),
+      userId,
+      createdAt: new Date().toISOString()
+    };
+
+    await attachmentStorage.put(attachment.path, data, contentType);
+    await kv.set(`attachment:${userId}:${attachmentId}`, attachment);
+
+    return c.json(attachment);
+  } catch (error) {
+    console.log('Error uploading attachment:', error);
+    return c.json({ error: 'Failed to upload attachment' }, 500);
+  }
+});
+
+app.get('/make-server-8b4b78bc/attachments/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const attachment = await kv.get(`attachment:${userId}:${c.req.param('id')}`);
+    const data = attachment ? await attachmentStorage.get(attachment.path) : null;
+    if (!data) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+
+    return c.body(data, 200, {
+      'Content-Type': attachment.contentType,
+      'Content-Disposition': inlineDisposition(attachment.fileName),
+      'X-Content-Type-Options': 'nosniff'
     });
+  } catch (error) {
+    console.log('Error downloading attachment:', error);
+    return c.json({ error: 'Failed to download attachment' }, 500);
+  }
+});
 
-    return c.json(budgetsWithSpending);
+app.delete('/make-server-8b4b78bc/attachments/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const attachment = await kv.get(`attachment:${userId}:${id}`);
+    if (!attachment) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+
+    await attachmentStorage.remove([attachment.path]);
+    await kv.del(`attachment:${userId}:${id}`);
+
+    return c.json({ success: true });
   } catch (error) {
-    console.log('Error fetching budgets:', error);
-    return c.json({ error: 'Failed to fetch budgets' }, 500);
+    console.log('Error deleting attachment:', error);
+    return c.json({ error: 'Failed to delete attachment' }, 500);
   }
 });
 
-app.post('/make-server-8b4b78bc/budgets', async (c) => {
+// Account Routes
+app.get('/make-server-8b4b78bc/accounts', async (c) => {
   try {
     const userId = await getUserId(c.req.raw);
     if (!userId) {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    const { category, amount, period } = await c.req.json();
-    
-    const budget = {
+    const accounts = await kv.getByPrefix(`account:${userId}:`);
+    const transactions = await getBaseTransactions(userId);
+
+    const accountsWithBalances = (accounts || [])
+      .map(account => ({
+        ...account,
+        balance: calculateAccountBalance(account, transactions || [])
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return c.json(accountsWithBalances);
+  } catch (error) {
+    console.log('Error fetching accounts:', error);
+    return c.json({ error: 'Failed to fetch accounts' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/accounts', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { name, type, openingBalance } = await c.req.json();
+
+    if (!name?.trim() || !isAccountType(type)) {
+      return c.json({ error: 'Account name and a valid account type are required' }, 400);
+    }
+
+    const account = {
       id: generateId(),
-      category,
-      amount: parseFloat(amount),
-      period,
+      name: name.trim(),
+      type,
+      openingBalance: parseFloat(openingBalance) || 0,
       userId,
       createdAt: new Date().toISOString()
     };
 
-    await kv.set(`budget:${userId}:${budget.id}`, budget);
+    await kv.set(`account:${userId}:${account.id}`, account);
 
-    return c.json(budget);
+    return c.json({ ...account, balance: account.openingBalance });
   } catch (error) {
-    console.log('Error creating budget:', error);
-    return c.json({ error: 'Failed to create budget' }, 500);
+    console.log('Error creating account:', error);
+    return c.json({ error: 'Failed to create account' }, 500);
   }
 });
 
-app.put('/make-server-8b4b78bc/budgets/:id', async (c) => {
+app.put('/make-server-8b4b78bc/accounts/:id', async (c) => {
   try {
     const userId = await getUserId(c.req.raw);
     if (!userId) {
@@ -252,31 +557,36 @@ app.put('/make-server-8b4b78bc/budgets/:id', async (c) => {
     }
 
     const id = c.req.param('id');
-    const { category, amount, period } = await c.req.json();
-    
-    const existingBudget = await kv.get(`budget:${userId}:${id}`);
-    if (!existingBudget) {
-      return c.json({ error: 'Budget not found' }, 404);
+    const { name, type, openingBalance } = await c.req.json();
+
+    const existingAccount = await kv.get(`account:${userId}:${id}`);
+    if (!existingAccount) {
+      return c.json({ error: 'Account not found' }, 404);
     }
 
-    const updatedBudget = {
-      ...existingBudget,
-      category,
-      amount: parseFloat(amount),
-      period,
+    if (type !== undefined && !isAccountType(type)) {
+      return c.json({ error: 'Invalid account type' }, 400);
+    }
+
+    const updatedAccount = {
+      ...existingAccount,
+      name: name?.trim() || existingAccount.name,
+      type: type ?? existingAccount.type,
+      openingBalance: openingBalance === undefined ? existingAccount.openingBalance : parseFloat(openingBalance) || 0,
       updatedAt: new Date().toISOString()
     };
 
-    await kv.set(`budget:${userId}:${id}`, updatedBudget);
+    await kv.set(`account:${userId}:${id}`, updatedAccount);
 
-    return c.json(updatedBudget);
+    const transactions = await getBaseTransactions(userId);
+    return c.json({ ...updatedAccount, balance: calculateAccountBalance(updatedAccount, transactions) });
   } catch (error) {
-    console.log('Error updating budget:', error);
-    return c.json({ error: 'Failed to update budget' }, 500);
+    console.log('Error updating account:', error);
+    return c.json({ error: 'Failed to update account' }, 500);
   }
 });
 
-app.delete('/make-server-8b4b78bc/budgets/:id', async (c) => {
+app.delete('/make-server-8b4b78bc/accounts/:id', async (c) => {
   try {
     const userId = await getUserId(c.req.raw);
     if (!userId) {
@@ -284,127 +594,3112 @@ app.delete('/make-server-8b4b78bc/budgets/:id', async (c) => {
     }
 
     const id = c.req.param('id');
-    
-    const existingBudget = await kv.get(`budget:${userId}:${id}`);
-    if (!existingBudget) {
-      return c.json({ error: 'Budget not found' }, 404);
+
+    const existingAccount = await kv.get(`account:${userId}:${id}`);
+    if (!existingAccount) {
+      return c.json({ error: 'Account not found' }, 404);
     }
 
-    await kv.del(`budget:${userId}:${id}`);
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
+    if ((transactions || []).some(t => t.accountId === id)) {
+      return c.json({ error: 'Account has transactions. Move or delete them first.' }, 409);
+    }
+
+    await kv.del(`account:${userId}:${id}`);
 
     return c.json({ success: true });
   } catch (error) {
-    console.log('Error deleting budget:', error);
-    return c.json({ error: 'Failed to delete budget' }, 500);
+    console.log('Error deleting account:', error);
+    return c.json({ error: 'Failed to delete account' }, 500);
   }
 });
 
-// Data Management Routes
-app.get('/make-server-8b4b78bc/export', async (c) => {
+// Recurring Transaction Routes
+app.get('/make-server-8b4b78bc/recurring', async (c) => {
   try {
     const userId = await getUserId(c.req.raw);
     if (!userId) {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
-    const budgets = await kv.getByPrefix(`budget:${userId}:`);
+    await processRecurringRules(userId);
 
-    const exportData = {
-      transactions: transactions || [],
-      budgets: budgets || [],
-      exportDate: new Date().toISOString(),
-      version: '1.0'
-    };
+    const tomorrow = addDays(todayIn((await getPreferences(userId)).timezone), 1);
+    const rules = await kv.getByPrefix(`recurring:${userId}:`);
+    const rulesWithNextDate = (rules || [])
+      .map(rule => ({ ...rule, nextDate: nextOccurrence(rule, tomorrow) }))
+      .sort((a, b) => (a.nextDate || '9999').localeCompare(b.nextDate || '9999'));
 
-    return c.json(exportData);
+    return c.json(rulesWithNextDate);
   } catch (error) {
-    console.log('Error exporting data:', error);
-    return c.json({ error: 'Failed to export data' }, 500);
+    console.log('Error fetching recurring rules:', error);
+    return c.json({ error: 'Failed to fetch recurring rules' }, 500);
   }
 });
 
-app.post('/make-server-8b4b78bc/import', async (c) => {
+app.get('/make-server-8b4b78bc/recurring/upcoming', async (c) => {
   try {
     const userId = await getUserId(c.req.raw);
     if (!userId) {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    const { transactions = [], budgets = [] } = await c.req.json();
+    const days = Math.min(Math.max(parseInt(c.req.query('days') || '30', 10) || 30, 1), 365);
+    const currentDate = todayIn((await getPreferences(userId)).timezone);
+    const from = addDays(currentDate, 1);
+    const to = addDays(currentDate, days);
 
-    // Import transactions
-    for (const transaction of transactions) {
-      const newTransaction = {
-        ...transaction,
-        id: generateId(),
-        userId,
-        importedAt: new Date().toISOString()
-      };
-      await kv.set(`transaction:${userId}:${newTransaction.id}`, newTransaction);
+    const rules = await kv.getByPrefix(`recurring:${userId}:`);
+    const upcoming = (rules || [])
+      .flatMap(rule => occurrencesBetween(rule, from, to).map(date => ({
+        ruleId: rule.id,
+        date,
+        amount: rule.amount,
+        type: rule.type,
+        category: rule.category,
+        description: rule.description,
+        accountId: rule.accountId,
+        mode: rule.mode
+      })))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return c.json({ from, to, upcoming });
+  } catch (error) {
+    console.log('Error fetching upcoming recurring transactions:', error);
+    return c.json({ error: 'Failed to fetch upcoming recurring transactions' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/recurring', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    // Import budgets
-    for (const budget of budgets) {
-      const newBudget = {
-        ...budget,
-        id: generateId(),
-        userId,
-        importedAt: new Date().toISOString()
-      };
-      await kv.set(`budget:${userId}:${newBudget.id}`, newBudget);
+    const { rule, error } = await buildRecurringRule(userId, await c.req.json());
+    if (error) {
+      return c.json({ error }, 400);
     }
 
-    return c.json({ 
-      success: true, 
-      imported: { 
-        transactions: transactions.length, 
-        budgets: budgets.length 
-      } 
-    });
+    await kv.set(`recurring:${userId}:${rule!.id}`, rule);
+
+    // A rule starting today or earlier posts its due occurrences right away
+    await processRecurringRules(userId);
+
+    const { timezone } = await getPreferences(userId);
+    return c.json({ ...rule, nextDate: nextOccurrence(rule!, addDays(todayIn(timezone), 1)) });
   } catch (error) {
-    console.log('Error importing data:', error);
-    return c.json({ error: 'Failed to import data' }, 500);
+    console.log('Error creating recurring rule:', error);
+    return c.json({ error: 'Failed to create recurring rule' }, 500);
   }
 });
 
-app.delete('/make-server-8b4b78bc/delete-account', async (c) => {
+app.put('/make-server-8b4b78bc/recurring/:id', async (c) => {
   try {
     const userId = await getUserId(c.req.raw);
     if (!userId) {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    // Delete all user data
-    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
-    const budgets = await kv.getByPrefix(`budget:${userId}:`);
+    const id = c.req.param('id');
+    const existingRule = await kv.get(`recurring:${userId}:${id}`);
+    if (!existingRule) {
+      return c.json({ error: 'Recurring rule not found' }, 404);
+    }
 
-    // Delete all transactions
-    for (const transaction of transactions || []) {
-      await kv.del(`transaction:${userId}:${transaction.id}`);
+    const { rule, error } = await buildRecurringRule(userId, await c.req.json(), existingRule);
+    if (error) {
+      return c.json({ error }, 400);
     }
 
-    // Delete all budgets
-    for (const budget of budgets || []) {
-      await kv.del(`budget:${userId}:${budget.id}`);
+    await kv.set(`recurring:${userId}:${id}`, rule);
+    await processRecurringRules(userId);
+
+    const { timezone } = await getPreferences(userId);
+    return c.json({ ...rule, nextDate: nextOccurrence(rule!, addDays(todayIn(timezone), 1)) });
+  } catch (error) {
+    console.log('Error updating recurring rule:', error);
+    return c.json({ error: 'Failed to update recurring rule' }, 500);
+  }
+});
+
+// Deleting a rule stops future occurrences; transactions it already posted are kept
+app.delete('/make-server-8b4b78bc/recurring/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const existingRule = await kv.get(`recurring:${userId}:${id}`);
+    if (!existingRule) {
+      return c.json({ error: 'Recurring rule not found' }, 404);
     }
 
+    await kv.del(`recurring:${userId}:${id}`);
+
     return c.json({ success: true });
   } catch (error) {
-    console.log('Error deleting account data:', error);
-    return c.json({ error: 'Failed to delete account data' }, 500);
+    console.log('Error deleting recurring rule:', error);
+    return c.json({ error: 'Failed to delete recurring rule' }, 500);
   }
 });
 
-// Helper function to update budget spending
-async function updateBudgetSpending(userId: string, category: string, amount: number) {
+// Posts due occurrences on demand, e.g. from a scheduled job
+app.post('/make-server-8b4b78bc/recurring/run', async (c) => {
   try {
-    const budgets = await kv.getByPrefix(`budget:${userId}:`);
-    const budget = budgets?.find(b => b.category === category);
-    
-    if (budget) {
-      // Budget spending is calculated dynamically, so no need to store it
-      // This function is kept for future enhancements like notifications
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    return c.json(await processRecurringRules(userId));
+  } catch (error) {
+    console.log('Error running recurring rules:', error);
+    return c.json({ error: 'Failed to run recurring rules' }, 500);
+  }
+});
+
+// Bill Routes
+app.get('/make-server-8b4b78bc/bills', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const currentDate = todayIn((await getPreferences(userId)).timezone);
+    const month = c.req.query('month') || monthOf(currentDate);
+    if (!isBillMonth(month)) {
+      return c.json({ error: 'Invalid month, expected YYYY-MM' }, 400);
+    }
+
+    const bills = await kv.getByPrefix(`bill:${userId}:`);
+    const billsForMonth = (bills || [])
+      .map(bill => ({
+        ...bill,
+        month,
+        dueDate: billDueDate(bill, month),
+        // Bills do not apply to months before they were added
+        status: month < bill.startMonth ? null : billStatus(bill, month, currentDate),
+        payment: bill.payments?.[month] ?? null
+      }))
+      .sort((a, b) => a.dueDay - b.dueDay || a.payee.localeCompare(b.payee));
+
+    return c.json(billsForMonth);
+  } catch (error) {
+    console.log('Error fetching bills:', error);
+    return c.json({ error: 'Failed to fetch bills' }, 500);
+  }
+});
+
+app.get('/make-server-8b4b78bc/bills/overdue', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const bills = await kv.getByPrefix(`bill:${userId}:`);
+    const { timezone } = await getPreferences(userId);
+    return c.json(getOverdueBills(bills || [], todayIn(timezone)));
+  } catch (error) {
+    console.log('Error fetching overdue bills:', error);
+    return c.json({ error: 'Failed to fetch overdue bills' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/bills', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { bill, error } = await buildBill(userId, await c.req.json());
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    await kv.set(`bill:${userId}:${bill!.id}`, bill);
+
+    return c.json(bill);
+  } catch (error) {
+    console.log('Error creating bill:', error);
+    return c.json({ error: 'Failed to create bill' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/bills/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const existingBill = await kv.get(`bill:${userId}:${id}`);
+    if (!existingBill) {
+      return c.json({ error: 'Bill not found' }, 404);
+    }
+
+    const { bill, error } = await buildBill(userId, await c.req.json(), existingBill);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    await kv.set(`bill:${userId}:${id}`, bill);
+
+    return c.json(bill);
+  } catch (error) {
+    console.log('Error updating bill:', error);
+    return c.json({ error: 'Failed to update bill' }, 500);
+  }
+});
+
+// Deleting a bill keeps the expenses that paid it
+app.delete('/make-server-8b4b78bc/bills/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const existingBill = await kv.get(`bill:${userId}:${id}`);
+    if (!existingBill) {
+      return c.json({ error: 'Bill not found' }, 404);
+    }
+
+    await kv.del(`bill:${userId}:${id}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting bill:', error);
+    return c.json({ error: 'Failed to delete bill' }, 500);
+  }
+});
+
+// Currency Routes
+app.get('/make-server-8b4b78bc/currency', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const table = await getRateTable(userId);
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
+
+    return c.json({
+      ...table,
+      // Currencies used by transactions that cannot be converted yet
+      missingRates: missingRates((transactions || []).map(t => t.currency), table)
+    });
+  } catch (error) {
+    console.log('Error fetching currency settings:', error);
+    return c.json({ error: 'Failed to fetch currency settings' }, 500);
+  }
+});
+
+// Sets the base currency and/or replaces the rate table. Changing only the base currency
+// re-expresses the existing rates in the new base.
+app.put('/make-server-8b4b78bc/currency', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { baseCurrency, rates } = await c.req.json();
+    let table = await getRateTable(userId);
+    const previousBase = table.baseCurrency;
+
+    if (rates !== undefined) {
+      if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+        return c.json({ error: 'Rates must be an object of currency codes to rates' }, 400);
+      }
+      for (const [code, rate] of Object.entries(rates)) {
+        if (!isCurrencyCode(code) || !isValidRate(rate)) {
+          return c.json({ error: `Invalid rate for "${code}"` }, 400);
+        }
+      }
+    }
+
+    if (baseCurrency !== undefined) {
+      if (!isCurrencyCode(baseCurrency)) {
+        return c.json({ error: 'Invalid base currency, expected a three-letter ISO 4217 code' }, 400);
+      }
+
+      if (rates !== undefined) {
+        table = { ...table, baseCurrency };
+      } else {
+        const rebased = rebaseRates(table, baseCurrency);
+        if (!rebased) {
+          return c.json({ error: `Add a rate for ${baseCurrency} before making it the base currency` }, 400);
+        }
+        table = rebased;
+      }
+    }
+
+    if (rates !== undefined) {
+      const { [table.baseCurrency]: _baseRate, ...otherRates } = rates;
+      table = { ...table, rates: otherRates };
+    }
+
+    // Transactions saved without a currency were in the old base currency; pin it before the base changes
+    if (table.baseCurrency !== previousBase) {
+      const unpinned = (await kv.getByPrefix(`transaction:${userId}:`) || []).filter(t => !t.currency);
+      if (unpinned.length > 0) {
+        await kv.mset(
+          unpinned.map(t => `transaction:${userId}:${t.id}`),
+          unpinned.map(t => ({ ...t, currency: previousBase }))
+        );
+      }
+    }
+
+    table = { ...table, updatedAt: new Date().toISOString() };
+    await kv.set(`fx:${userId}`, table);
+
+    return c.json(table);
+  } catch (error) {
+    console.log('Error updating currency settings:', error);
+    return c.json({ error: 'Failed to update currency settings' }, 500);
+  }
+});
+
+// Merges rates from an uploaded CSV or JSON file into the table
+app.post('/make-server-8b4b78bc/currency/rates/import', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { content } = await c.req.json();
+    if (typeof content !== 'string') {
+      return c.json({ error: 'Rate file content is required' }, 400);
+    }
+
+    const { rates, error } = parseRateFile(content);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const table = await getRateTable(userId);
+    const { [table.baseCurrency]: _baseRate, ...importedRates } = rates!;
+    const updatedTable = {
+      ...table,
+      rates: { ...table.rates, ...importedRates },
+      updatedAt: new Date().toISOString()
+    };
+
+    await kv.set(`fx:${userId}`, updatedTable);
+
+    return c.json({ ...updatedTable, imported: Object.keys(importedRates).length });
+  } catch (error) {
+    console.log('Error importing exchange rates:', error);
+    return c.json({ error: 'Failed to import exchange rates' }, 500);
+  }
+});
+
+// Preference Routes
+app.get('/make-server-8b4b78bc/preferences', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    return c.json(await getPreferences(userId));
+  } catch (error) {
+    console.log('Error fetching preferences:', error);
+    return c.json({ error: 'Failed to fetch preferences' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/preferences', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { preferences, error } = buildPreferences(await c.req.json(), await getPreferences(userId));
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const updatedPreferences = { ...preferences, updatedAt: new Date().toISOString() };
+    await kv.set(`prefs:${userId}`, updatedPreferences);
+
+    return c.json(updatedPreferences);
+  } catch (error) {
+    console.log('Error updating preferences:', error);
+    return c.json({ error: 'Failed to update preferences' }, 500);
+  }
+});
+
+// Tag Routes
+app.get('/make-server-8b4b78bc/tags', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const from = c.req.query('from');
+    const to = c.req.query('to');
+    const transactions = (await getBaseTransactions(userId))
+      .filter(t => (!from || t.date >= from) && (!to || t.date <= to));
+
+    // Usage count and income/expense totals per tag
+    const tags: Record<string, { name: string; count: number; income: number; expense: number }> = {};
+    for (const transaction of transactions) {
+      for (const tag of transaction.tags || []) {
+        tags[tag] = tags[tag] || { name: tag, count: 0, income: 0, expense: 0 };
+        tags[tag].count += 1;
+        if (transaction.type === 'income') tags[tag].income += transaction.amount;
+        if (transaction.type === 'expense') tags[tag].expense += transaction.amount;
+      }
+    }
+
+    return c.json(Object.values(tags).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)));
+  } catch (error) {
+    console.log('Error fetching tags:', error);
+    return c.json({ error: 'Failed to fetch tags' }, 500);
+  }
+});
+
+// Budget Routes
+app.get('/make-server-8b4b78bc/budgets', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    // Number of previous periods to report alongside the current one
+    const history = Math.min(Math.max(parseInt(c.req.query('history') || '3', 10) || 0, 0), 12);
+
+    const budgets = await kv.getByPrefix(`budget:${userId}:`);
+    
+    // Calculate spending for each budget within its current and previous period windows
+    const transactions = await getBaseTransactions(userId);
+    const categories = await getCategories(userId);
+    const { timezone, weekStart } = await getPreferences(userId);
+    const now = new Date(`${todayIn(timezone)}T00:00:00Z`);
+    const budgetsWithSpending = (budgets || []).map(budget => {
+      const [current, ...previous] = getPeriodWindows(budget.period, now, history, weekStart).map(window => {
+        const spent = calculateBudgetSpending(budget, transactions, categories, window);
+
+        return {
+          periodStart: window.start,
+          periodEnd: window.end,
+          spent,
+          remaining: budget.amount - spent
+        };
+      });
+      
+      return {
+        ...budget,
+        ...current,
+        history: previous
+      };
+    });
+
+    return c.json(budgetsWithSpending);
+  } catch (error) {
+    console.log('Error fetching budgets:', error);
+    return c.json({ error: 'Failed to fetch budgets' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/budgets', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { category, amount, period, alertThresholds } = await c.req.json();
+    
+    const budget = {
+      id: generateId(),
+      category,
+      amount: parseFloat(amount),
+      period,
+      alertThresholds: normalizeThresholds(alertThresholds),
+      userId,
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`budget:${userId}:${budget.id}`, budget);
+
+    const transactions = await getBaseTransactions(userId);
+    await checkBudgetThresholds(userId, budget, transactions, await getCategories(userId));
+
+    return c.json(budget);
+  } catch (error) {
+    console.log('Error creating budget:', error);
+    return c.json({ error: 'Failed to create budget' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/budgets/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const { category, amount, period, alertThresholds } = await c.req.json();
+    
+    const existingBudget = await kv.get(`budget:${userId}:${id}`);
+    if (!existingBudget) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    const updatedBudget = {
+      ...existingBudget,
+      category,
+      amount: parseFloat(amount),
+      period,
+      alertThresholds: normalizeThresholds(alertThresholds ?? existingBudget.alertThresholds),
+      updatedAt: new Date().toISOString()
+    };
+
+    await kv.set(`budget:${userId}:${id}`, updatedBudget);
+
+    const transactions = await getBaseTransactions(userId);
+    await checkBudgetThresholds(userId, updatedBudget, transactions, await getCategories(userId));
+
+    return c.json(updatedBudget);
+  } catch (error) {
+    console.log('Error updating budget:', error);
+    return c.json({ error: 'Failed to update budget' }, 500);
+  }
+});
+
+app.delete('/make-server-8b4b78bc/budgets/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    
+    const existingBudget = await kv.get(`budget:${userId}:${id}`);
+    if (!existingBudget) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    await kv.del(`budget:${userId}:${id}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting budget:', error);
+    return c.json({ error: 'Failed to delete budget' }, 500);
+  }
+});
+
+// Category Routes
+app.get('/make-server-8b4b78bc/categories', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const categories = await getCategories(userId);
+    return c.json(categories);
+  } catch (error) {
+    console.log('Error fetching categories:', error);
+    return c.json({ error: 'Failed to fetch categories' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/categories', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { name, kind, color, icon, parentId } = await c.req.json();
+
+    if (!name?.trim() || !isCategoryKind(kind)) {
+      return c.json({ error: 'Category name and kind (income or expense) are required' }, 400);
+    }
+
+    const categories = await getCategories(userId);
+    if (categories.some(cat => cat.kind === kind && sameCategoryName(cat.name, name))) {
+      return c.json({ error: `A ${kind} category named "${name.trim()}" already exists` }, 409);
+    }
+
+    const parent = parentId ? categories.find(cat => cat.id === parentId) : null;
+    if (parentId && parent?.kind !== kind) {
+      return c.json({ error: 'Parent category must exist and be of the same kind' }, 400);
+    }
+
+    const category = {
+      id: generateId(),
+      name: name.trim(),
+      kind,
+      color: color || parent?.color || '#6b7280',
+      icon: icon || parent?.icon || 'Circle',
+      parentId: parent ? parent.id : null,
+      userId,
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`category:${userId}:${category.id}`, category);
+
+    return c.json(category);
+  } catch (error) {
+    console.log('Error creating category:', error);
+    return c.json({ error: 'Failed to create category' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/categories/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const { name, color, icon, parentId } = await c.req.json();
+
+    const existingCategory = await kv.get(`category:${userId}:${id}`);
+    if (!existingCategory) {
+      return c.json({ error: 'Category not found' }, 404);
+    }
+
+    const newName = name?.trim() || existingCategory.name;
+    const categories = await getCategories(userId);
+    if (categories.some(cat => cat.id !== id && cat.kind === existingCategory.kind && sameCategoryName(cat.name, newName))) {
+      return c.json({ error: `A ${existingCategory.kind} category named "${newName}" already exists` }, 409);
+    }
+
+    // parentId is left unchanged when omitted; null moves the category to the top level
+    const newParentId = parentId === undefined ? existingCategory.parentId ?? null : parentId;
+    if (newParentId) {
+      const parent = categories.find(cat => cat.id === newParentId);
+      if (parent?.kind !== existingCategory.kind || wouldCreateCycle(categories, id, newParentId)) {
+        return c.json({ error: 'Parent category must be of the same kind and not one of its subcategories' }, 400);
+      }
+    }
+
+    const updatedCategory = {
+      ...existingCategory,
+      name: newName,
+      color: color || existingCategory.color,
+      icon: icon || existingCategory.icon,
+      parentId: newParentId,
+      updatedAt: new Date().toISOString()
+    };
+
+    // Renaming rewrites every transaction and budget that references the old name
+    const { keys, values } = newName !== existingCategory.name
+      ? await rewriteCategoryReferences(userId, existingCategory.kind, existingCategory.name, newName)
+      : { keys: [], values: [] };
+
+    await kv.mset(
+      [`category:${userId}:${id}`, ...keys],
+      [updatedCategory, ...values]
+    );
+    if (keys.length > 0) {
+      await invalidateCategoryModel(userId);
+    }
+
+    return c.json({ ...updatedCategory, rewritten: keys.length });
+  } catch (error) {
+    console.log('Error updating category:', error);
+    return c.json({ error: 'Failed to update category' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/categories/:id/merge', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const { targetId } = await c.req.json();
+
+    const sourceCategory = await kv.get(`category:${userId}:${id}`);
+    const targetCategory = targetId ? await kv.get(`category:${userId}:${targetId}`) : null;
+    if (!sourceCategory || !targetCategory) {
+      return c.json({ error: 'Category not found' }, 404);
+    }
+
+    if (id === targetId || sourceCategory.kind !== targetCategory.kind) {
+      return c.json({ error: 'Categories can only be merged into a different category of the same kind' }, 400);
+    }
+
+    const categories = await getCategories(userId);
+    if (wouldCreateCycle(categories, id, targetId)) {
+      return c.json({ error: 'A category cannot be merged into one of its own subcategories' }, 400);
+    }
+
+    const { keys, values } = await rewriteCategoryReferences(userId, sourceCategory.kind, sourceCategory.name, targetCategory.name);
+
+    // Subcategories of the merged category move under the target
+    for (const child of categories.filter(cat => cat.parentId === id)) {
+      keys.push(`category:${userId}:${child.id}`);
+      values.push({ ...child, parentId: targetId, updatedAt: new Date().toISOString() });
+    }
+
+    if (keys.length > 0) {
+      await kv.mset(keys, values);
+      await invalidateCategoryModel(userId);
+    }
+    await kv.del(`category:${userId}:${id}`);
+
+    return c.json({ ...targetCategory, rewritten: keys.length });
+  } catch (error) {
+    console.log('Error merging categories:', error);
+    return c.json({ error: 'Failed to merge categories' }, 500);
+  }
+});
+
+app.delete('/make-server-8b4b78bc/categories/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+
+    const existingCategory = await kv.get(`category:${userId}:${id}`);
+    if (!existingCategory) {
+      return c.json({ error: 'Category not found' }, 404);
+    }
+
+    const categories = await getCategories(userId);
+    if (categories.some(cat => cat.parentId === id)) {
+      return c.json({ error: 'Category has subcategories. Move or delete them first.' }, 409);
+    }
+
+    const { keys } = await rewriteCategoryReferences(userId, existingCategory.kind, existingCategory.name, existingCategory.name);
+    if (keys.length > 0) {
+      return c.json({ error: 'Category is in use. Merge it into another category instead.' }, 409);
+    }
+
+    await kv.del(`category:${userId}:${id}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting category:', error);
+    return c.json({ error: 'Failed to delete category' }, 500);
+  }
+});
+
+// Category Suggestion Routes
+app.get('/make-server-8b4b78bc/category-suggestions', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { description = '', type } = c.req.query();
+    if (!isCategoryKind(type)) {
+      return c.json({ error: 'Suggestions are made for income or expense transactions' }, 400);
+    }
+
+    // Categories that were deleted or renamed since training are not suggested
+    const categories = (await getCategories(userId)).filter(cat => cat.kind === type);
+    const suggestions = suggestCategories(await getCategoryModel(userId), type, description)
+      .filter(suggestion => categories.some(cat => cat.name === suggestion.category));
+
+    // A payee's default category is what the user chose for it, so it comes first and is filled in
+    const payee = findPayee(await kv.getByPrefix(`payee:${userId}:`) || [], description);
+    const payeeCategory = payee?.defaultCategory && categories.find(cat => sameCategoryName(cat.name, payee.defaultCategory));
+    if (payeeCategory) {
+      return c.json({
+        suggestions: [
+          { category: payeeCategory.name, probability: 1 },
+          ...suggestions.filter(suggestion => suggestion.category !== payeeCategory.name)
+        ],
+        autoFill: true
+      });
+    }
+
+    return c.json({
+      suggestions,
+      autoFill: suggestions.length > 0 && suggestions[0].probability >= AUTO_FILL_CONFIDENCE
+    });
+  } catch (error) {
+    console.log('Error suggesting categories:', error);
+    return c.json({ error: 'Failed to suggest categories' }, 500);
+  }
+});
+
+// Records whether a suggested category was kept, so that later suggestions learn from it
+app.post('/make-server-8b4b78bc/category-suggestions/feedback', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { description, type, category, accepted } = await c.req.json();
+    if (!isCategoryKind(type) || typeof category !== 'string' || !category || typeof description !== 'string' || typeof accepted !== 'boolean') {
+      return c.json({ error: 'Feedback needs a description, type, category and whether it was accepted' }, 400);
+    }
+
+    const model = recordFeedback(await getCategoryModel(userId), type, category, description, accepted);
+    await kv.set(`category-model:${userId}`, model);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error recording suggestion feedback:', error);
+    return c.json({ error: 'Failed to record suggestion feedback' }, 500);
+  }
+});
+
+// Notification Routes
+app.get('/make-server-8b4b78bc/notifications', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    // Remind-only recurring rules and upcoming or overdue bills surface as notifications
+    await processRecurringRules(userId);
+    await processBillReminders(userId);
+
+    const notifications = (await kv.getByPrefix(`notification:${userId}:`) || [])
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return c.json({
+      notifications: notifications.slice(0, 50),
+      unreadCount: notifications.filter(n => !n.read).length
+    });
+  } catch (error) {
+    console.log('Error fetching notifications:', error);
+    return c.json({ error: 'Failed to fetch notifications' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/notifications/read-all', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const unread = (await kv.getByPrefix(`notification:${userId}:`) || []).filter(n => !n.read);
+    if (unread.length > 0) {
+      const readAt = new Date().toISOString();
+      await kv.mset(
+        unread.map(n => `notification:${userId}:${n.id}`),
+        unread.map(n => ({ ...n, read: true, readAt }))
+      );
+    }
+
+    return c.json({ success: true, updated: unread.length });
+  } catch (error) {
+    console.log('Error marking notifications as read:', error);
+    return c.json({ error: 'Failed to mark notifications as read' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/notifications/:id/read', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+
+    const existingNotification = await kv.get(`notification:${userId}:${id}`);
+    if (!existingNotification) {
+      return c.json({ error: 'Notification not found' }, 404);
+    }
+
+    const updatedNotification = {
+      ...existingNotification,
+      read: true,
+      readAt: new Date().toISOString()
+    };
+
+    await kv.set(`notification:${userId}:${id}`, updatedNotification);
+
+    return c.json(updatedNotification);
+  } catch (error) {
+    console.log('Error marking notification as read:', error);
+    return c.json({ error: 'Failed to mark notification as read' }, 500);
+  }
+});
+
+// Import Profile Routes
+app.get('/make-server-8b4b78bc/import-profiles', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const profiles = await kv.getByPrefix(`import-profile:${userId}:`);
+    return c.json((profiles || []).sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (error) {
+    console.log('Error fetching import profiles:', error);
+    return c.json({ error: 'Failed to fetch import profiles' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/import-profiles', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { profile, error } = buildImportProfile(await c.req.json());
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const newProfile = {
+      ...profile,
+      id: generateId(),
+      userId,
+      createdAt: new Date().toISOString()
+    };
+
+    await kv.set(`import-profile:${userId}:${newProfile.id}`, newProfile);
+
+    return c.json(newProfile);
+  } catch (error) {
+    console.log('Error creating import profile:', error);
+    return c.json({ error: 'Failed to create import profile' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/import-profiles/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const existingProfile = await kv.get(`import-profile:${userId}:${id}`);
+    if (!existingProfile) {
+      return c.json({ error: 'Import profile not found' }, 404);
+    }
+
+    const { profile, error } = buildImportProfile({ ...existingProfile, ...(await c.req.json()) });
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const updatedProfile = {
+      ...existingProfile,
+      ...profile,
+      updatedAt: new Date().toISOString()
+    };
+
+    await kv.set(`import-profile:${userId}:${id}`, updatedProfile);
+
+    return c.json(updatedProfile);
+  } catch (error) {
+    console.log('Error updating import profile:', error);
+    return c.json({ error: 'Failed to update import profile' }, 500);
+  }
+});
+
+app.delete('/make-server-8b4b78bc/import-profiles/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    await kv.del(`import-profile:${userId}:${id}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting import profile:', error);
+    return c.json({ error: 'Failed to delete import profile' }, 500);
+  }
+});
+
+// Categorization Rule Routes
+app.get('/make-server-8b4b78bc/rules', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    return c.json(await getRules(userId));
+  } catch (error) {
+    console.log('Error fetching rules:', error);
+    return c.json({ error: 'Failed to fetch rules' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/rules', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { rule, error } = await buildRule(userId, await c.req.json());
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    await kv.set(`rule:${userId}:${rule!.id}`, rule);
+
+    return c.json(rule);
+  } catch (error) {
+    console.log('Error creating rule:', error);
+    return c.json({ error: 'Failed to create rule' }, 500);
+  }
+});
+
+// Reorders the rules to match the given list of ids
+app.put('/make-server-8b4b78bc/rules/order', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { ids } = await c.req.json();
+    const rules = await getRules(userId);
+    if (!Array.isArray(ids) || ids.length !== rules.length || !rules.every(rule => ids.includes(rule.id))) {
+      return c.json({ error: 'The order must list every rule exactly once' }, 400);
+    }
+
+    const reordered = rules
+      .map(rule => ({ ...rule, position: ids.indexOf(rule.id) }))
+      .sort((a, b) => a.position - b.position);
+    await kv.mset(reordered.map(rule => `rule:${userId}:${rule.id}`), reordered);
+
+    return c.json(reordered);
+  } catch (error) {
+    console.log('Error reordering rules:', error);
+    return c.json({ error: 'Failed to reorder rules' }, 500);
+  }
+});
+
+// Runs the rules over existing transactions, or only the rules listed in `ruleIds`. With
+// `dryRun` nothing is written and the response lists the changes that would be made.
+// Categories the user picked by hand are kept.
+app.post('/make-server-8b4b78bc/rules/apply', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { ruleIds, dryRun = false } = await c.req.json();
+    const rules = (await getRules(userId)).filter(rule => !Array.isArray(ruleIds) || ruleIds.includes(rule.id));
+    const context = await getRuleContext(userId);
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`) || [];
+    const updatedAt = new Date().toISOString();
+
+    const changes = transactions.flatMap(transaction => {
+      const { transaction: ruled, applied } = applyRules(transaction, rules, context, transaction.manualCategory ? ['category'] : []);
+      const changed = RULE_FIELDS.filter(field => JSON.stringify(ruled[field]) !== JSON.stringify(transaction[field]));
+      if (changed.length === 0) return [];
+
+      return [{
+        id: transaction.id,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        before: Object.fromEntries(changed.map(field => [field, transaction[field]])),
+        after: Object.fromEntries(changed.map(field => [field, ruled[field]])),
+        rules: applied.map(rule => rule.name),
+        transaction: { ...ruled, updatedAt }
+      }];
+    }).sort((a, b) => b.date.localeCompare(a.date));
+
+    if (!dryRun && changes.length > 0) {
+      await kv.mset(changes.map(change => `transaction:${userId}:${change.id}`), changes.map(change => change.transaction));
+      await invalidateCategoryModel(userId);
+    }
+
+    return c.json({
+      dryRun,
+      updated: changes.length,
+      changes: changes.map(({ transaction, ...change }) => change)
+    });
+  } catch (error) {
+    console.log('Error applying rules:', error);
+    return c.json({ error: 'Failed to apply rules' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/rules/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const existingRule = await kv.get(`rule:${userId}:${id}`);
+    if (!existingRule) {
+      return c.json({ error: 'Rule not found' }, 404);
+    }
+
+    const { rule, error } = await buildRule(userId, await c.req.json(), existingRule);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    await kv.set(`rule:${userId}:${id}`, rule);
+
+    return c.json(rule);
+  } catch (error) {
+    console.log('Error updating rule:', error);
+    return c.json({ error: 'Failed to update rule' }, 500);
+  }
+});
+
+// Deleting a rule leaves the transactions it already changed as they are
+app.delete('/make-server-8b4b78bc/rules/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const existingRule = await kv.get(`rule:${userId}:${id}`);
+    if (!existingRule) {
+      return c.json({ error: 'Rule not found' }, 404);
+    }
+
+    await kv.del(`rule:${userId}:${id}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting rule:', error);
+    return c.json({ error: 'Failed to delete rule' }, 500);
+  }
+});
+
+// Payee Routes
+app.get('/make-server-8b4b78bc/payees', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const payees = await getPayees(userId);
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`) || [];
+    const counts = transactions.reduce((acc, t) => {
+      if (t.payeeId) acc[t.payeeId] = (acc[t.payeeId] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    return c.json(payees
+      .map(payee => ({ ...payee, transactionCount: counts[payee.id] || 0 }))
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (error) {
+    console.log('Error fetching payees:', error);
+    return c.json({ error: 'Failed to fetch payees' }, 500);
+  }
+});
+
+app.post('/make-server-8b4b78bc/payees', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { payee, error } = await buildPayee(userId, await c.req.json());
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    await kv.set(`payee:${userId}:${payee!.id}`, payee);
+
+    return c.json({ ...payee, transactionCount: 0 });
+  } catch (error) {
+    console.log('Error creating payee:', error);
+    return c.json({ error: 'Failed to create payee' }, 500);
+  }
+});
+
+app.put('/make-server-8b4b78bc/payees/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const existingPayee = await kv.get(`payee:${userId}:${id}`);
+    if (!existingPayee) {
+      return c.json({ error: 'Payee not found' }, 404);
+    }
+
+    const { payee, error } = await buildPayee(userId, await c.req.json(), existingPayee);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    await kv.set(`payee:${userId}:${id}`, payee);
+
+    return c.json(payee);
+  } catch (error) {
+    console.log('Error updating payee:', error);
+    return c.json({ error: 'Failed to update payee' }, 500);
+  }
+});
+
+// Merges a payee into another: its transactions move over and its name and aliases become
+// aliases of the target, so descriptions that named it now lead to the target
+app.post('/make-server-8b4b78bc/payees/:id/merge', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    const { targetId } = await c.req.json();
+
+    const sourcePayee = await kv.get(`payee:${userId}:${id}`);
+    const targetPayee = targetId ? await kv.get(`payee:${userId}:${targetId}`) : null;
+    if (!sourcePayee || !targetPayee) {
+      return c.json({ error: 'Payee not found' }, 404);
+    }
+
+    if (id === targetId) {
+      return c.json({ error: 'A payee can only be merged into a different payee' }, 400);
+    }
+
+    const mergedPayee = {
+      ...targetPayee,
+      aliases: normalizeAliases([...targetPayee.aliases, sourcePayee.name, ...sourcePayee.aliases], targetPayee.name),
+      defaultCategory: targetPayee.defaultCategory ?? sourcePayee.defaultCategory,
+      updatedAt: new Date().toISOString()
+    };
+    const transactions = (await kv.getByPrefix(`transaction:${userId}:`) || [])
+      .filter(t => t.payeeId === id)
+      .map(t => ({ ...t, payeeId: targetId }));
+
+    await kv.mset(
+      [`payee:${userId}:${targetId}`, ...transactions.map(t => `transaction:${userId}:${t.id}`)],
+      [mergedPayee, ...transactions]
+    );
+    await kv.del(`payee:${userId}:${id}`);
+
+    return c.json({ ...mergedPayee, moved: transactions.length });
+  } catch (error) {
+    console.log('Error merging payees:', error);
+    return c.json({ error: 'Failed to merge payees' }, 500);
+  }
+});
+
+// Deletes a payee. Its transactions are kept without a payee.
+app.delete('/make-server-8b4b78bc/payees/:id', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const id = c.req.param('id');
+    if (!(await kv.get(`payee:${userId}:${id}`))) {
+      return c.json({ error: 'Payee not found' }, 404);
+    }
+
+    const transactions = (await kv.getByPrefix(`transaction:${userId}:`) || [])
+      .filter(t => t.payeeId === id)
+      .map(t => ({ ...t, payeeId: null }));
+    if (transactions.length > 0) {
+      await kv.mset(transactions.map(t => `transaction:${userId}:${t.id}`), transactions);
+    }
+    await kv.del(`payee:${userId}:${id}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting payee:', error);
+    return c.json({ error: 'Failed to delete payee' }, 500);
+  }
+});
+
+// Data Management Routes
+app.get('/make-server-8b4b78bc/export', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    // Loading the payees first links older transactions to theirs
+    const payees = await getPayees(userId);
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
+    const budgets = await kv.getByPrefix(`budget:${userId}:`);
+    const accounts = await kv.getByPrefix(`account:${userId}:`);
+
+    const exportData = {
+      transactions: (transactions || []).map(exportTransaction),
+      budgets: budgets || [],
+      accounts: accounts || [],
+      categories: await getCategories(userId),
+      payees: payees.map(({ id, name, aliases, defaultCategory }) => ({ id, name, aliases, defaultCategory })),
+      exportDate: new Date().toISOString(),
+      version: CURRENT_EXPORT_VERSION
+    };
+
+    return c.json(exportData);
+  } catch (error) {
+    console.log('Error exporting data:', error);
+    return c.json({ error: 'Failed to export data' }, 500);
+  }
+});
+
+// Imports transactions and budgets, such as a JSON backup or rows mapped by the CSV wizard.
+// Backups carry a `version` and must match the schema of that version; older versions are
+// upgraded to the current one, and their accounts, categories and payees are restored by name.
+// Every row is validated first and rows with errors are left out. `applyRules` runs the
+// categorization rules and `applyPayeeDefaults` files rows still without a category under their
+// payee's default category; both are off for backups unless asked for. Incoming records that
+// duplicate existing ones are handled by `duplicateStrategy`. With `dryRun` nothing is written
+// and the response previews each row, the duplicate outcome and the effect on budgets.
+app.post('/make-server-8b4b78bc/import', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json();
+    // Backups are restored as they were exported, so rules only run on other imports by default
+    const {
+      duplicateStrategy = 'skip',
+      dryRun = false,
+      applyRules: runRules = body.version === undefined,
+      applyPayeeDefaults = body.version === undefined
+    } = body;
+    if (!isDuplicateStrategy(duplicateStrategy)) {
+      return c.json({ error: 'Duplicate strategy must be skip, overwrite or keep' }, 400);
+    }
+
+    let file = body;
+    let upgradedFrom: string | null = null;
+    if (body.version !== undefined) {
+      const { data, from, issues } = upgradeExport(body);
+      if (issues) {
+        return c.json({ error: `The file does not match export format ${body.version}`, issues }, 400);
+      }
+      file = data;
+      upgradedFrom = from === CURRENT_EXPORT_VERSION ? null : from!;
+    }
+
+    const {
+      transactions = [],
+      budgets = [],
+      accounts: exportedAccounts = [],
+      categories: exportedCategories = [],
+      payees: exportedPayees = []
+    } = file;
+    if (!Array.isArray(transactions) || !Array.isArray(budgets)) {
+      return c.json({ error: 'Transactions and budgets must be lists' }, 400);
+    }
+
+    const importedAt = new Date().toISOString();
+    const table = await getRateTable(userId);
+    const categories = await getCategories(userId);
+    const accounts = await kv.getByPrefix(`account:${userId}:`) || [];
+    const restoredAccounts = restoreAccounts(userId, accounts, exportedAccounts, importedAt);
+    const restoredCategories = restoreCategories(userId, categories, exportedCategories, importedAt);
+    const { timezone } = await getPreferences(userId);
+    const context: ImportContext = {
+      categories: [...categories, ...restoredCategories],
+      accountIds: new Set([...accounts, ...restoredAccounts.records].map(account => account.id)),
+      table,
+      today: todayIn(timezone)
+    };
+    const payees = await kv.getByPrefix(`payee:${userId}:`) || [];
+    const restoredPayees = restorePayees(userId, payees, exportedPayees, context.categories, importedAt);
+
+    // Transactions from a backup refer to the exported accounts and payees, which now have ids of their own
+    const accountId = (id: any) => (id && restoredAccounts.ids.get(id)) || id;
+    const payeeId = (id: any) => (id && restoredPayees.ids.get(id)) || id;
+    const transactionRows = rejectOrphanedTransferLegs(transactions.map((transaction, index) => validateImportedTransaction(
+      transaction && typeof transaction === 'object'
+        ? {
+          ...transaction,
+          accountId: accountId(transaction.accountId),
+          ...(transaction.payeeId ? { payeeId: payeeId(transaction.payeeId) } : {}),
+          ...(transaction.counterpartAccountId ? { counterpartAccountId: accountId(transaction.counterpartAccountId) } : {})
+        }
+        : transaction,
+      index + 1,
+      context
+    )), transactions);
+    const budgetRows = budgets.map((budget, index) => validateImportedBudget(budget, index + 1, context));
+    if (runRules) {
+      const rules = await getRules(userId);
+      for (const row of transactionRows) {
+        if (row.record) row.record = applyRules(row.record, rules, context).transaction;
+      }
+    }
+
+    // Payees are linked before planning so that the preview shows their default categories. The payees
+    // this creates are only saved, with the transactions that use them, when the import is committed.
+    const validRows = transactionRows.filter(row => row.record);
+    const payeeLinks = await linkTransactionPayees(
+      userId,
+      validRows.map(row => row.record),
+      t => applyPayeeDefaults && t.category === IMPORT_FALLBACK_CATEGORY,
+      { payees: restoredPayees.records, categories: restoredCategories }
+    );
+    validRows.forEach((row, index) => { row.record = payeeLinks.transactions[index]; });
+    const restored = {
+      accounts: restoredAccounts.records.length,
+      categories: restoredCategories.length,
+      payees: restoredPayees.records.length
+    };
+
+    // Records get new ids, so links between the legs of a transfer are remapped to match
+    const transactionIds = transactionRows.map(() => generateId());
+    const budgetIds = budgetRows.map(() => generateId());
+    const newIds = new Map(transactions.map((t: any, index) => [t?.id, transactionIds[index]]).filter(([id]) => id));
+
+    const incomingTransactions = transactionRows.filter(row => row.record).map(({ row, record }) => ({
+      ...record,
+      id: transactionIds[row - 1],
+      ...(record.linkedTransactionId
+        ? { linkedTransactionId: newIds.get(record.linkedTransactionId) ?? record.linkedTransactionId }
+        : {}),
+      tags: normalizeTags(record.tags),
+      userId,
+      importedAt
+    }));
+    const incomingBudgets = budgetRows.filter(row => row.record).map(({ row, record }) => ({
+      ...record,
+      id: budgetIds[row - 1],
+      alertThresholds: normalizeThresholds(record.alertThresholds),
+      userId,
+      importedAt
+    }));
+
+    const existingTransactions = await kv.getByPrefix(`transaction:${userId}:`) || [];
+    const existingBudgets = await kv.getByPrefix(`budget:${userId}:`) || [];
+    const transactionPlan = planTransactionImport(existingTransactions, incomingTransactions, duplicateStrategy, importedAt);
+    const budgetPlan = planBudgetImport(existingBudgets, incomingBudgets, duplicateStrategy, importedAt);
+    const invalid = {
+      transactions: transactionRows.filter(row => !row.record).length,
+      budgets: budgetRows.filter(row => !row.record).length
+    };
+
+    if (dryRun) {
+      return c.json({
+        dryRun: true,
+        transactions: transactionRows.map(row => ({
+          ...row,
+          ...(row.record ? transactionPlan.actions.get(transactionIds[row.row - 1]) : { action: 'invalid' })
+        })),
+        budgets: budgetRows.map(row => ({
+          ...row,
+          ...(row.record ? budgetPlan.actions.get(budgetIds[row.row - 1]) : { action: 'invalid' })
+        })),
+        outcome: {
+          transactions: transactionPlan.outcome,
+          budgets: budgetPlan.outcome
+        },
+        invalid,
+        restored,
+        upgradedFrom,
+        budgetImpact: await projectBudgetImpact(userId, {
+          budgets: existingBudgets,
+          importedBudgets: budgetPlan.records,
+          transactions: existingTransactions,
+          importedTransactions: transactionPlan.records,
+          categories: context.categories,
+          table
+        })
+      });
+    }
+
+    if (restoredAccounts.records.length > 0) {
+      await kv.mset(restoredAccounts.records.map(account => `account:${userId}:${account.id}`), restoredAccounts.records);
+    }
+    if (restoredCategories.length > 0) {
+      await kv.mset(restoredCategories.map(cat => `category:${userId}:${cat.id}`), restoredCategories);
+    }
+    if (restoredPayees.records.length > 0) {
+      await kv.mset(restoredPayees.records.map(payee => `payee:${userId}:${payee.id}`), restoredPayees.records);
+    }
+
+    if (transactionPlan.records.length > 0) {
+      const createdPayees = payeeLinks.created.filter(payee => transactionPlan.records.some(t => t.payeeId === payee.id));
+      if (createdPayees.length > 0) {
+        await kv.mset(createdPayees.map(payee => `payee:${userId}:${payee.id}`), createdPayees);
+      }
+      await kv.mset(transactionPlan.records.map(t => `transaction:${userId}:${t.id}`), transactionPlan.records);
+      await invalidateCategoryModel(userId);
+    }
+    if (budgetPlan.records.length > 0) {
+      await kv.mset(budgetPlan.records.map(b => `budget:${userId}:${b.id}`), budgetPlan.records);
+    }
+
+    return c.json({ 
+      success: true, 
+      imported: { 
+        transactions: importedCount(transactionPlan.outcome), 
+        budgets: importedCount(budgetPlan.outcome) 
+      },
+      outcome: {
+        transactions: transactionPlan.outcome,
+        budgets: budgetPlan.outcome
+      },
+      invalid,
+      restored
+    });
+  } catch (error) {
+    console.log('Error importing data:', error);
+    return c.json({ error: 'Failed to import data' }, 500);
+  }
+});
+
+// Imports OFX/QFX statements. FITIDs are kept as external ids so that transactions from
+// overlapping statements are recognized as duplicates, and each statement's ledger balance is
+// recorded on the account for reconciliation.
+app.post('/make-server-8b4b78bc/import/ofx', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { content, accountId, duplicateStrategy = 'skip' } = await c.req.json();
+    if (typeof content !== 'string') {
+      return c.json({ error: 'Statement file content is required' }, 400);
+    }
+    if (!isDuplicateStrategy(duplicateStrategy)) {
+      return c.json({ error: 'Duplicate strategy must be skip, overwrite or keep' }, 400);
+    }
+
+    const account = accountId ? await kv.get(`account:${userId}:${accountId}`) : null;
+    if (accountId && !account) {
+      return c.json({ error: 'Account not found' }, 400);
+    }
+
+    const { statements, error } = parseOfx(content);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const table = await getRateTable(userId);
+    const importedAt = new Date().toISOString();
+    const transactions = [];
+
+    for (const statement of statements!) {
+      const externalAccount = ofxAccountKey(statement);
+      // Statements in an unrecognized currency are taken to be in the base currency
+      const currency = (await resolveCurrency(userId, statement.currency)).currency ?? table.baseCurrency;
+
+      for (const entry of statement.transactions) {
+        transactions.push({
+          id: generateId(),
+          amount: Math.abs(entry.amount),
+          currency,
+          type: entry.amount < 0 ? 'expense' : 'income',
+          category: IMPORT_FALLBACK_CATEGORY,
+          description: entry.name || entry.memo || 'Imported transaction',
+          date: entry.date,
+          tags: [],
+          accountId: account?.id ?? null,
+          splits: [],
+          externalId: entry.fitId,
+          externalAccount,
+          importSource: 'ofx',
+          userId,
+          createdAt: importedAt,
+          importedAt
+        });
+      }
+    }
+
+    const outcome = await saveImportedTransactions(userId, transactions, duplicateStrategy);
+
+    // Keep the most recent ledger balance on the account so it can be reconciled
+    const ledgerBalances = statements!.filter(s => s.ledgerBalance).map(s => ({ ...s.ledgerBalance!, currency: s.currency }));
+    const latestBalance = ledgerBalances.sort((a, b) => (b.date || '').localeCompare(a.date || ''))[0];
+    let accountBalance: number | null = null;
+    if (account) {
+      if (latestBalance && (latestBalance.date || '') >= (account.statementBalance?.date || '')) {
+        await kv.set(`account:${userId}:${account.id}`, { ...account, statementBalance: { ...latestBalance, importedAt } });
+      }
+      accountBalance = calculateAccountBalance(account, await getBaseTransactions(userId));
+    }
+
+    return c.json({
+      imported: importedCount(outcome),
+      outcome,
+      accountBalance,
+      statements: statements!.map(statement => ({
+        accountNumber: statement.accountNumber,
+        accountType: statement.accountType,
+        currency: statement.currency,
+        startDate: statement.startDate,
+        endDate: statement.endDate,
+        transactions: statement.transactions.length,
+        ledgerBalance: statement.ledgerBalance,
+        // Positive when the account shows more money than the bank does
+        difference: accountBalance !== null && statement.ledgerBalance
+          ? accountBalance - toBaseAmount(statement.ledgerBalance.amount, statement.currency, table)
+          : null
+      }))
+    });
+  } catch (error) {
+    console.log('Error importing OFX statement:', error);
+    return c.json({ error: 'Failed to import statement' }, 500);
+  }
+});
+
+// Imports a QIF file. Category paths are mapped onto the category tree, creating missing
+// categories, and transfers between two known accounts become linked transfers.
+app.post('/make-server-8b4b78bc/import/qif', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { content, accountId, dateOrder, duplicateStrategy = 'skip' } = await c.req.json();
+    if (typeof content !== 'string') {
+      return c.json({ error: 'QIF file content is required' }, 400);
+    }
+    if (!isDuplicateStrategy(duplicateStrategy)) {
+      return c.json({ error: 'Duplicate strategy must be skip, overwrite or keep' }, 400);
+    }
+
+    const account = accountId ? await kv.get(`account:${userId}:${accountId}`) : null;
+    if (accountId && !account) {
+      return c.json({ error: 'Account not found' }, 400);
+    }
+
+    const { sections, categories: qifCategories, skipped: unreadable, error } = parseQif(content, dateOrder === 'DMY' ? 'DMY' : 'MDY');
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const categories = await getCategories(userId);
+    const createdCategories: any[] = [];
+    for (const category of qifCategories!) {
+      resolveCategoryPath(userId, categories, createdCategories, category.kind, category.path);
+    }
+
+    const accounts = await kv.getByPrefix(`account:${userId}:`) || [];
+    const findAccount = (name: string | null) =>
+      name ? accounts.find(a => a.name.trim().toLowerCase() === name.trim().toLowerCase()) : undefined;
+    const accountsInFile = new Set(sections!.map(section => section.accountName?.trim().toLowerCase()).filter(Boolean));
+
+    const { baseCurrency } = await getRateTable(userId);
+    const importedAt = new Date().toISOString();
+    const transactions: any[] = [];
+    // Unreadable records and the incoming side of transfers that are imported from the other account
+    let ignored = unreadable!;
+
+    for (const section of sections!) {
+      const sectionAccount = findAccount(section.accountName) || account;
+
+      for (const entry of section.transactions) {
+        const counterpart = findAccount(entry.transferAccount);
+        if (entry.transferAccount && sectionAccount && counterpart && counterpart.id !== sectionAccount.id) {
+          // A transfer between two accounts in the file is listed in both; keep only the outgoing side
+          if (entry.amount > 0 && accountsInFile.has(entry.transferAccount.trim().toLowerCase())) {
+            ignored++;
+            continue;
+          }
+
+          const [from, to] = entry.amount < 0 ? [sectionAccount, counterpart] : [counterpart, sectionAccount];
+          const { legs, error: transferError } = await buildTransferLegs(userId, {
+            amount: Math.abs(entry.amount),
+            description: entry.payee || entry.memo,
+            date: entry.date,
+            tags: [],
+            fromAccountId: from.id,
+            toAccountId: to.id,
+            currency: baseCurrency
+          });
+          if (transferError) {
+            ignored++;
+            continue;
+          }
+
+          transactions.push(...legs!.map(leg => ({ ...leg, importSource: 'qif', importedAt })));
+          continue;
+        }
+
+        transactions.push(buildQifTransaction(userId, entry, categories, createdCategories, {
+          id: generateId(),
+          currency: baseCurrency,
+          accountId: sectionAccount?.id ?? null,
+          importSource: 'qif',
+          userId,
+          createdAt: importedAt,
+          importedAt
+        }));
+      }
+    }
+
+    if (createdCategories.length > 0) {
+      await kv.mset(createdCategories.map(cat => `category:${userId}:${cat.id}`), createdCategories);
+    }
+    const outcome = await saveImportedTransactions(userId, transactions, duplicateStrategy);
+
+    return c.json({
+      imported: importedCount(outcome),
+      outcome,
+      ignored,
+      categoriesCreated: createdCategories.length
+    });
+  } catch (error) {
+    console.log('Error importing QIF file:', error);
+    return c.json({ error: 'Failed to import QIF file' }, 500);
+  }
+});
+
+// Exports all transactions as QIF, one section per account. QIF has no notion of currency,
+// so amounts are written in each transaction's own currency.
+app.get('/make-server-8b4b78bc/export/qif', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`) || [];
+    const accounts = await kv.getByPrefix(`account:${userId}:`) || [];
+    const categories = await getCategories(userId);
+    const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+
+    const toQif = (t: any): QifTransaction => {
+      const sign = Math.sign(balanceEffect(t)) || 1;
+      const kind = t.type === 'income' ? 'income' : 'expense';
+      return {
+        date: t.date,
+        amount: sign * t.amount,
+        payee: t.description || '',
+        memo: '',
+        category: t.type === 'transfer' || t.splits?.length ? null : categoryPath(categories, kind, t.category),
+        transferAccount: t.type === 'transfer' ? accountNames.get(t.counterpartAccountId) ?? null : null,
+        checkNumber: null,
+        splits: (t.splits || []).map((split: any) => ({
+          category: categoryPath(categories, kind, split.category),
+          transferAccount: null,
+          amount: sign * split.amount,
+          memo: split.memo || ''
+        }))
+      };
+    };
+
+    const byDate = (a: any, b: any) => a.date.localeCompare(b.date);
+    const sections: QifExportAccount[] = [
+      { name: null, type: 'Bank', transactions: transactions.filter(t => !accountNames.has(t.accountId)).sort(byDate).map(toQif) },
+      ...accounts.map(a => ({
+        name: a.name,
+        type: QIF_ACCOUNT_TYPES[a.type as AccountType],
+        transactions: transactions.filter(t => t.accountId === a.id).sort(byDate).map(toQif)
+      }))
+    ];
+
+    const qifCategories = categories.map(cat => ({
+      path: categoryPath(categories, cat.kind, cat.name),
+      kind: cat.kind,
+      description: ''
+    }));
+
+    return c.text(buildQif(sections, qifCategories));
+  } catch (error) {
+    console.log('Error exporting QIF:', error);
+    return c.json({ error: 'Failed to export QIF' }, 500);
+  }
+});
+
+// Exports the transactions matching the same filters as GET /transactions as a CSV or XLSX
+// spreadsheet, in the sort order requested. `columns` is a comma-separated list of columns.
+app.get('/make-server-8b4b78bc/export/transactions', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    // Exports cover every matching transaction, so paging parameters are dropped
+    const { format = 'csv', columns: columnList, limit, cursor, ...filters } = c.req.query();
+    if (!isExportFormat(format)) {
+      return c.json({ error: 'Export format must be csv or xlsx' }, 400);
+    }
+
+    const { columns, error: columnsError } = parseExportColumns(columnList);
+    if (columnsError) {
+      return c.json({ error: columnsError }, 400);
+    }
+
+    const { query, error } = parseTransactionQuery(filters);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
+    const accounts = await kv.getByPrefix(`account:${userId}:`) || [];
+    const payees = await kv.getByPrefix(`payee:${userId}:`) || [];
+    const { locale, timezone } = await getPreferences(userId);
+    const sheet = buildSpreadsheet(queryTransactions(transactions || [], query!).transactions, columns!, {
+      table: await getRateTable(userId),
+      accountNames: new Map(accounts.map(account => [account.id, account.name])),
+      payeeNames: new Map(payees.map(payee => [payee.id, payee.name])),
+      locale
+    });
+
+    const fileName = `transactions-${todayIn(timezone)}.${format}`;
+    if (format === 'xlsx') {
+      return c.body(buildXlsx(sheet), 200, {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      });
+    }
+
+    return c.body(buildCsv(sheet, locale), 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    });
+  } catch (error) {
+    console.log('Error exporting transactions:', error);
+    return c.json({ error: 'Failed to export transactions' }, 500);
+  }
+});
+
+app.get('/make-server-8b4b78bc/reports/statement', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { window, error } = parseStatementRange(c.req.query(), todayIn((await getPreferences(userId)).timezone));
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    return c.json(await buildStatementReport(userId, window!));
+  } catch (error) {
+    console.log('Error building statement:', error);
+    return c.json({ error: 'Failed to build statement' }, 500);
+  }
+});
+
+app.get('/make-server-8b4b78bc/reports/statement/pdf', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const preferences = await getPreferences(userId);
+    const { window, error } = parseStatementRange(c.req.query(), todayIn(preferences.timezone));
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const report = await buildStatementReport(userId, window!);
+    const pdf = await buildStatementPdf(report, createFormatter(preferences, await getRateTable(userId)));
+
+    return c.body(pdf, 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="statement-${window!.start}-to-${window!.end}.pdf"`
+    });
+  } catch (error) {
+    console.log('Error generating statement PDF:', error);
+    return c.json({ error: 'Failed to generate statement PDF' }, 500);
+  }
+});
+
+app.delete('/make-server-8b4b78bc/delete-account', async (c) => {
+  try {
+    const userId = await getUserId(c.req.raw);
+    if (!userId) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    // Delete all user data
+    const transactions = await kv.getByPrefix(`transaction:${userId}:`);
+    const budgets = await kv.getByPrefix(`budget:${userId}:`);
+    const notifications = await kv.getByPrefix(`notification:${userId}:`);
+    const categories = await kv.getByPrefix(`category:${userId}:`);
+    const accounts = await kv.getByPrefix(`account:${userId}:`);
+    const recurringRules = await kv.getByPrefix(`recurring:${userId}:`);
+    const bills = await kv.getByPrefix(`bill:${userId}:`);
+    const importProfiles = await kv.getByPrefix(`import-profile:${userId}:`);
+    const rules = await kv.getByPrefix(`rule:${userId}:`);
+    const payees = await kv.getByPrefix(`payee:${userId}:`);
+    const attachments = await kv.getByPrefix(`attachment:${userId}:`);
+
+    // Delete all transactions
+    for (const transaction of transactions || []) {
+      await kv.del(`transaction:${userId}:${transaction.id}`);
+    }
+
+    // Delete all budgets
+    for (const budget of budgets || []) {
+      await kv.del(`budget:${userId}:${budget.id}`);
+    }
+
+    // Delete all notifications
+    for (const notification of notifications || []) {
+      await kv.del(`notification:${userId}:${notification.id}`);
+    }
+
+    // Delete all categories
+    for (const category of categories || []) {
+      await kv.del(`category:${userId}:${category.id}`);
+    }
+
+    // Delete all accounts
+    for (const account of accounts || []) {
+      await kv.del(`account:${userId}:${account.id}`);
+    }
+
+    // Delete all recurring rules
+    for (const rule of recurringRules || []) {
+      await kv.del(`recurring:${userId}:${rule.id}`);
+    }
+
+    // Delete all bills
+    for (const bill of bills || []) {
+      await kv.del(`bill:${userId}:${bill.id}`);
+    }
+
+    // Delete all import profiles
+    for (const profile of importProfiles || []) {
+      await kv.del(`import-profile:${userId}:${profile.id}`);
+    }
+
+    // Delete all categorization rules
+    for (const rule of rules || []) {
+      await kv.del(`rule:${userId}:${rule.id}`);
+    }
+
+    // Delete all payees
+    for (const payee of payees || []) {
+      await kv.del(`payee:${userId}:${payee.id}`);
+    }
+
+    // Delete all attachments and their files
+    await attachmentStorage.remove((attachments || []).map(attachment => attachment.path));
+    for (const attachment of attachments || []) {
+      await kv.del(`attachment:${userId}:${attachment.id}`);
+    }
+
+    // Delete the exchange-rate table, preferences and category suggestion model
+    await kv.del(`fx:${userId}`);
+    await kv.del(`prefs:${userId}`);
+    await kv.del(`category-model:${userId}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting account data:', error);
+    return c.json({ error: 'Failed to delete account data' }, 500);
+  }
+});
+
+// Helper function to delete the files attached to transactions along with their records
+async function deleteAttachments(userId: string, transactionIds: string[]) {
+  const attachments = (await kv.getByPrefix(`attachment:${userId}:`) || [])
+    .filter(attachment => transactionIds.includes(attachment.transactionId));
+  if (attachments.length === 0) return;
+
+  await attachmentStorage.remove(attachments.map(attachment => attachment.path));
+  await kv.mdel(attachments.map(attachment => `attachment:${userId}:${attachment.id}`));
+}
+
+// Helper function to build the outgoing and incoming legs of a transfer, reusing the ids
+// of existing legs when a transfer is being updated
+async function buildTransferLegs(userId: string, fields: any, existingLegs?: any[]): Promise<{ legs?: any[]; error?: string }> {
+  const { amount, description, date, tags, fromAccountId, toAccountId } = fields;
+
+  const parsedAmount = parseFloat(amount);
+  if (!(parsedAmount > 0)) {
+    return { error: 'Transfer amount must be greater than zero' };
+  }
+
+  if (!fromAccountId || !toAccountId || fromAccountId === toAccountId) {
+    return { error: 'A transfer needs two different accounts' };
+  }
+
+  const fromAccount = await kv.get(`account:${userId}:${fromAccountId}`);
+  const toAccount = await kv.get(`account:${userId}:${toAccountId}`);
+  if (!fromAccount || !toAccount) {
+    return { error: 'Account not found' };
+  }
+
+  const now = new Date().toISOString();
+  const [existingOut, existingIn] = existingLegs || [];
+  const outId = existingOut?.id || generateId();
+  const inId = existingIn?.id || generateId();
+  const transferId = existingOut?.transferId || generateId();
+
+  const shared = {
+    amount: parsedAmount,
+    currency: fields.currency,
+    type: 'transfer',
+    category: 'Transfer',
+    description: description || `Transfer from ${fromAccount.name} to ${toAccount.name}`,
+    date,
+    tags: normalizeTags(tags),
+    transferId,
+    userId
+  };
+
+  const outLeg = {
+    ...existingOut,
+    ...shared,
+    id: outId,
+    accountId: fromAccountId,
+    counterpartAccountId: toAccountId,
+    transferDirection: 'out',
+    linkedTransactionId: inId,
+    ...(existingOut ? { updatedAt: now } : { createdAt: now })
+  };
+
+  const inLeg = {
+    ...existingIn,
+    ...shared,
+    id: inId,
+    accountId: toAccountId,
+    counterpartAccountId: fromAccountId,
+    transferDirection: 'in',
+    linkedTransactionId: outId,
+    ...(existingIn ? { updatedAt: now } : { createdAt: now })
+  };
+
+  return { legs: [outLeg, inLeg] };
+}
+
+// Helper function to validate the split lines of an income or expense. Returns no splits
+// when the transaction is booked under a single category.
+function resolveSplits(splits: unknown, amount: number): { splits?: any[]; error?: string } {
+  if (!Array.isArray(splits) || splits.length === 0) {
+    return {};
+  }
+
+  const error = validateSplits(splits, amount);
+  if (error) {
+    return { error };
+  }
+
+  return { splits: normalizeSplits(splits) };
+}
+
+// Helper function to get a user's category suggestion model, training it from their transactions
+// when there is none yet or bulk changes have made its counts stale
+async function getCategoryModel(userId: string): Promise<CategoryModel> {
+  const model: CategoryModel = (await kv.get(`category-model:${userId}`)) ?? emptyCategoryModel();
+  if (model.counts) return model;
+
+  const transactions = await kv.getByPrefix(`transaction:${userId}:`) || [];
+  const trained = { ...model, counts: trainCategoryWeights({}, transactions), updatedAt: new Date().toISOString() };
+  await kv.set(`category-model:${userId}`, trained);
+  return trained;
+}
+
+// Helper function to keep the category suggestion model in step with a single transaction change.
+// A model that has not been trained yet is left for getCategoryModel to build.
+async function updateCategoryModel(userId: string, removed: any[], added: any[]) {
+  const model: CategoryModel | null = await kv.get(`category-model:${userId}`);
+  if (!model?.counts) return;
+
+  const counts = trainCategoryWeights(trainCategoryWeights(model.counts, removed, -1), added);
+  await kv.set(`category-model:${userId}`, { ...model, counts, updatedAt: new Date().toISOString() });
+}
+
+// Helper function to mark the suggestion model's counts stale after bulk changes to transactions.
+// Feedback is kept; the counts are retrained on the next suggestion.
+async function invalidateCategoryModel(userId: string) {
+  const model: CategoryModel | null = await kv.get(`category-model:${userId}`);
+  if (model?.counts) {
+    await kv.set(`category-model:${userId}`, { ...model, counts: null });
+  }
+}
+
+// Transaction fields that categorization rules can change
+const RULE_FIELDS = ['category', 'tags', 'description', 'accountId'];
+
+// Helper function to get a user's categorization rules in the order they run
+async function getRules(userId: string): Promise<CategorizationRule[]> {
+  const rules = await kv.getByPrefix(`rule:${userId}:`);
+  return (rules || []).sort((a, b) => a.position - b.position);
+}
+
+// Helper function to load the categories and accounts that rule actions may refer to
+async function getRuleContext(userId: string): Promise<RuleContext> {
+  const accounts = await kv.getByPrefix(`account:${userId}:`) || [];
+  return {
+    categories: await getCategories(userId),
+    accountIds: new Set(accounts.map(account => account.id))
+  };
+}
+
+// Helper function to validate and build a categorization rule. New rules run after the existing ones.
+async function buildRule(userId: string, fields: any, existingRule?: any): Promise<{ rule?: any; error?: string }> {
+  const merged = { ...existingRule, ...fields };
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+  const amount = (value: unknown) => value === null || value === undefined || value === '' ? null : parseFloat(value as string);
+
+  const conditions = {
+    contains: text(merged.conditions?.contains),
+    pattern: text(merged.conditions?.pattern),
+    minAmount: amount(merged.conditions?.minAmount),
+    maxAmount: amount(merged.conditions?.maxAmount),
+    type: merged.conditions?.type || null
+  };
+  const actions = {
+    category: text(merged.actions?.category),
+    tags: normalizeTags(merged.actions?.tags),
+    description: text(merged.actions?.description),
+    accountId: text(merged.actions?.accountId)
+  };
+
+  if (!text(merged.name)) {
+    return { error: 'Rule name is required' };
+  }
+  if (!hasConditions(conditions)) {
+    return { error: 'A rule needs at least one condition' };
+  }
+  if (!hasActions(actions)) {
+    return { error: 'A rule needs at least one action' };
+  }
+  if (conditions.pattern && !isValidPattern(conditions.pattern)) {
+    return { error: 'The pattern is not a valid regular expression' };
+  }
+  if ([conditions.minAmount, conditions.maxAmount].some(value => value !== null && !Number.isFinite(value))) {
+    return { error: 'Amount bounds must be numbers' };
+  }
+  if (conditions.minAmount !== null && conditions.maxAmount !== null && conditions.minAmount > conditions.maxAmount) {
+    return { error: 'The minimum amount cannot be above the maximum' };
+  }
+  if (conditions.type !== null && !isCategoryKind(conditions.type)) {
+    return { error: 'Rules match income or expense transactions' };
+  }
+
+  if (actions.category) {
+    const categories = await getCategories(userId);
+    const matches = categories.filter(cat => sameCategoryName(cat.name, actions.category!) && (!conditions.type || cat.kind === conditions.type));
+    if (matches.length === 0) {
+      return { error: conditions.type ? `No ${conditions.type} category named ${actions.category}` : `Category ${actions.category} not found` };
+    }
+    actions.category = matches[0].name;
+  }
+  if (actions.accountId && !(await kv.get(`account:${userId}:${actions.accountId}`))) {
+    return { error: 'Account not found' };
+  }
+
+  const rules = existingRule ? [] : await getRules(userId);
+  const now = new Date().toISOString();
+  return {
+    rule: {
+      id: existingRule?.id || generateId(),
+      name: text(merged.name)!,
+      position: existingRule?.position ?? Math.max(-1, ...rules.map(rule => rule.position)) + 1,
+      enabled: merged.enabled !== false,
+      conditions,
+      actions,
+      userId,
+      ...(existingRule ? { createdAt: existingRule.createdAt, updatedAt: now } : { createdAt: now })
+    }
+  };
+}
+
+// Helper function to get a user's payees. Transactions saved before payees existed have no
+// payeeId at all and are linked to payees from their descriptions here.
+async function getPayees(userId: string): Promise<any[]> {
+  const unlinked = (await kv.getByPrefix(`transaction:${userId}:`) || [])
+    .filter(t => (t.type === 'income' || t.type === 'expense') && t.payeeId === undefined);
+  if (unlinked.length > 0) {
+    const linked = await assignPayees(userId, unlinked, () => false);
+    await kv.mset(linked.map(t => `transaction:${userId}:${t.id}`), linked);
+  }
+
+  return await kv.getByPrefix(`payee:${userId}:`) || [];
+}
+
+// Helper function to link transactions to the payees their descriptions name. Payees that had to be
+// created are returned unsaved. Transactions picked by isUncategorized take the payee's default category.
+// `restored` holds payees and categories from a backup that are not saved yet.
+async function linkTransactionPayees(
+  userId: string,
+  transactions: any[],
+  isUncategorized: (transaction: any) => boolean,
+  restored: { payees: any[]; categories: any[] } = { payees: [], categories: [] }
+): Promise<{ transactions: any[]; created: any[] }> {
+  const createdAt = new Date().toISOString();
+  return linkPayees(transactions, {
+    payees: [...(await kv.getByPrefix(`payee:${userId}:`) || []), ...restored.payees],
+    categories: [...await getCategories(userId), ...restored.categories],
+    create: name => ({ id: generateId(), name, aliases: [], defaultCategory: null, userId, createdAt }),
+    isUncategorized
+  });
+}
+
+// Helper function to link transactions to their payees, saving any payees that had to be created
+async function assignPayees(userId: string, transactions: any[], isUncategorized: (transaction: any) => boolean): Promise<any[]> {
+  const { transactions: linked, created } = await linkTransactionPayees(userId, transactions, isUncategorized);
+  if (created.length > 0) {
+    await kv.mset(created.map(payee => `payee:${userId}:${payee.id}`), created);
+  }
+  return linked;
+}
+
+// Helper function to validate and build a payee, merging the fields over an existing payee when
+// updating. A name or alias may only lead to one payee.
+async function buildPayee(userId: string, fields: any, existingPayee?: any): Promise<{ payee?: any; error?: string }> {
+  const merged = { ...existingPayee, ...fields };
+  const name = typeof merged.name === 'string' ? merged.name.trim() : '';
+  let defaultCategory = typeof merged.defaultCategory === 'string' && merged.defaultCategory.trim() ? merged.defaultCategory.trim() : null;
+
+  if (!payeeKey(name)) {
+    return { error: 'Payee name is required' };
+  }
+  const aliases = normalizeAliases(merged.aliases, name);
+
+  const payees = (await kv.getByPrefix(`payee:${userId}:`) || []).filter(payee => payee.id !== existingPayee?.id);
+  const taken = [name, ...aliases].find(value => payees.some(payee => payeeKeys(payee).includes(payeeKey(value))));
+  if (taken) {
+    const owner = payees.find(payee => payeeKeys(payee).includes(payeeKey(taken)));
+    return { error: `"${taken}" already belongs to the payee ${owner.name}` };
+  }
+
+  if (defaultCategory) {
+    const category = (await getCategories(userId)).find(cat => sameCategoryName(cat.name, defaultCategory!));
+    if (!category) {
+      return { error: `Category ${defaultCategory} not found` };
+    }
+    defaultCategory = category.name;
+  }
+
+  const now = new Date().toISOString();
+  return {
+    payee: {
+      id: existingPayee?.id || generateId(),
+      name,
+      aliases,
+      defaultCategory,
+      userId,
+      ...(existingPayee ? { createdAt: existingPayee.createdAt, updatedAt: now } : { createdAt: now })
+    }
+  };
+}
+
+// Helper function to validate a recurring rule, merging the fields over an existing rule when updating
+async function buildRecurringRule(userId: string, fields: any, existingRule?: any): Promise<{ rule?: any; error?: string }> {
+  const merged = { ...existingRule, ...fields };
+  const amount = parseFloat(merged.amount);
+
+  if (!(amount > 0) || (merged.type !== 'income' && merged.type !== 'expense') || !merged.category || !merged.description?.trim()) {
+    return { error: 'Amount, type, category and description are required' };
+  }
+  if (!isRecurringFrequency(merged.frequency)) {
+    return { error: 'Invalid frequency, expected daily, weekly, biweekly, monthly or yearly' };
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(merged.startDate || '')) {
+    return { error: 'Invalid start date, expected YYYY-MM-DD' };
+  }
+  if (merged.endDate && (!/^\d{4}-\d{2}-\d{2}$/.test(merged.endDate) || merged.endDate < merged.startDate)) {
+    return { error: 'End date must be on or after the start date' };
+  }
+
+  const occurrences = merged.occurrences ? parseInt(merged.occurrences, 10) : null;
+  if (occurrences !== null && !(occurrences > 0)) {
+    return { error: 'Occurrence count must be a positive number' };
+  }
+
+  const mode = merged.mode ?? 'auto';
+  if (!isRecurringMode(mode)) {
+    return { error: 'Invalid mode, expected auto or remind' };
+  }
+
+  if (merged.accountId && !(await kv.get(`account:${userId}:${merged.accountId}`))) {
+    return { error: 'Account not found' };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    rule: {
+      id: existingRule?.id || generateId(),
+      amount,
+      type: merged.type,
+      category: merged.category,
+      description: merged.description.trim(),
+      tags: normalizeTags(merged.tags),
+      accountId: merged.accountId || null,
+      frequency: merged.frequency,
+      startDate: merged.startDate,
+      endDate: merged.endDate || null,
+      occurrences,
+      mode,
+      lastProcessedDate: existingRule?.lastProcessedDate ?? null,
+      userId,
+      ...(existingRule ? { createdAt: existingRule.createdAt, updatedAt: now } : { createdAt: now })
+    }
+  };
+}
+
+// Helper function to materialize recurring rules up to today in the user's timezone: auto-post rules
+// create their due transactions and remind-only rules send a notification instead. Ids are derived
+// from the rule and occurrence date, so running this again (or concurrently) never duplicates an occurrence.
+async function processRecurringRules(userId: string): Promise<{ posted: number; reminded: number }> {
+  const rules = await kv.getByPrefix(`recurring:${userId}:`);
+  const result = { posted: 0, reminded: 0 };
+  if (!rules || rules.length === 0) return result;
+
+  const processedThrough = todayIn((await getPreferences(userId)).timezone);
+  const { baseCurrency } = await getRateTable(userId);
+  const postedExpenseCategories = new Set<string>();
+
+  for (const rule of rules) {
+    const from = rule.lastProcessedDate ? addDays(rule.lastProcessedDate, 1) : rule.startDate;
+    const dates = occurrencesBetween(rule, from, processedThrough);
+    if (dates.length === 0) continue;
+
+    const createdAt = new Date().toISOString();
+    if (rule.mode === 'remind') {
+      const notifications = dates.map(date => ({
+        id: `recurring_${rule.id}_${date}`,
+        type: 'recurring_reminder',
+        title: `${rule.description} is due`,
+        message: `Your ${rule.frequency} ${rule.type} of ${formatCurrency(rule.amount, baseCurrency)} (${rule.category}) was due on ${date}.`,
+        recurringId: rule.id,
+        read: false,
+        userId,
+        createdAt
+      }));
+      await kv.mset(notifications.map(n => `notification:${userId}:${n.id}`), notifications);
+      result.reminded += notifications.length;
+    } else {
+      const transactions = await assignPayees(userId, dates.map(date => ({
+        id: `rec_${rule.id}_${date}`,
+        amount: rule.amount,
+        currency: baseCurrency,
+        type: rule.type,
+        category: rule.category,
+        description: rule.description,
+        date,
+        tags: rule.tags || [],
+        accountId: rule.accountId || null,
+        recurringId: rule.id,
+        userId,
+        createdAt
+      })), () => false);
+      await kv.mset(transactions.map(t => `transaction:${userId}:${t.id}`), transactions);
+      result.posted += transactions.length;
+      if (rule.type === 'expense') postedExpenseCategories.add(rule.category);
+    }
+
+    await kv.set(`recurring:${userId}:${rule.id}`, { ...rule, lastProcessedDate: processedThrough });
+  }
+
+  if (postedExpenseCategories.size > 0) {
+    await updateBudgetSpending(userId, [...postedExpenseCategories], processedThrough);
+  }
+  if (result.posted > 0) {
+    await invalidateCategoryModel(userId);
+  }
+
+  return result;
+}
+
+// Helper function to validate a bill, merging the fields over an existing bill when updating
+async function buildBill(userId: string, fields: any, existingBill?: any): Promise<{ bill?: any; error?: string }> {
+  const merged = { ...existingBill, ...fields };
+  const amount = parseFloat(merged.amount);
+  const dueDay = parseInt(merged.dueDay, 10);
+
+  if (!merged.payee?.trim() || !(amount > 0) || !merged.category) {
+    return { error: 'Payee, amount and category are required' };
+  }
+  if (!isDueDay(dueDay)) {
+    return { error: 'Due day must be between 1 and 31' };
+  }
+
+  const startMonth = merged.startMonth || monthOf(todayIn((await getPreferences(userId)).timezone));
+  if (!isBillMonth(startMonth)) {
+    return { error: 'Invalid start month, expected YYYY-MM' };
+  }
+
+  if (merged.accountId && !(await kv.get(`account:${userId}:${merged.accountId}`))) {
+    return { error: 'Account not found' };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    bill: {
+      id: existingBill?.id || generateId(),
+      payee: merged.payee.trim(),
+      amount,
+      dueDay,
+      category: merged.category,
+      accountId: merged.accountId || null,
+      autopay: !!merged.autopay,
+      startMonth,
+      payments: existingBill?.payments ?? {},
+      userId,
+      ...(existingBill ? { createdAt: existingBill.createdAt, updatedAt: now } : { createdAt: now })
+    }
+  };
+}
+
+const BILL_OVERDUE_LOOKBACK_MONTHS = 12;
+const BILL_REMINDER_DAYS = 3;
+
+// Helper function to list unpaid, non-autopay bill months whose due date is before `currentDate`,
+// looking back at most a year
+function getOverdueBills(bills: any[], currentDate: string) {
+  const currentMonth = monthOf(currentDate);
+  const overdue = [];
+
+  for (const bill of bills) {
+    for (let i = BILL_OVERDUE_LOOKBACK_MONTHS - 1; i >= 0; i--) {
+      const month = addMonths(currentMonth, -i);
+      if (month < bill.startMonth || billStatus(bill, month, currentDate) !== 'overdue') continue;
+      overdue.push({
+        billId: bill.id,
+        payee: bill.payee,
+        amount: bill.amount,
+        category: bill.category,
+        accountId: bill.accountId,
+        month,
+        dueDate: billDueDate(bill, month)
+      });
+    }
+  }
+
+  return overdue.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+// Helper function to notify about bills due within the next few days and about overdue bills.
+// Notification ids are derived from the bill, month and kind, so each is sent once.
+async function processBillReminders(userId: string) {
+  const bills = await kv.getByPrefix(`bill:${userId}:`);
+  if (!bills || bills.length === 0) return;
+
+  const currentDate = todayIn((await getPreferences(userId)).timezone);
+  const reminderUntil = addDays(currentDate, BILL_REMINDER_DAYS);
+  const { baseCurrency } = await getRateTable(userId);
+  const candidates = [];
+
+  for (const bill of bills.filter(b => !b.autopay)) {
+    for (const month of [monthOf(currentDate), addMonths(monthOf(currentDate), 1)]) {
+      const dueDate = billDueDate(bill, month);
+      if (month < bill.startMonth || bill.payments?.[month] || dueDate < currentDate || dueDate > reminderUntil) continue;
+      candidates.push({
+        id: `bill_${bill.id}_${month}_due`,
+        title: `${bill.payee} is due soon`,
+        message: `Your ${formatCurrency(bill.amount, baseCurrency)} ${bill.payee} bill is due on ${dueDate}.`,
+        billId: bill.id
+      });
+    }
+  }
+
+  for (const overdue of getOverdueBills(bills, currentDate)) {
+    candidates.push({
+      id: `bill_${overdue.billId}_${overdue.month}_overdue`,
+      title: `${overdue.payee} is overdue`,
+      message: `Your ${formatCurrency(overdue.amount, baseCurrency)} ${overdue.payee} bill was due on ${overdue.dueDate}.`,
+      billId: overdue.billId
+    });
+  }
+
+  for (const candidate of candidates) {
+    const existingNotification = await kv.get(`notification:${userId}:${candidate.id}`);
+    if (existingNotification) continue;
+
+    await kv.set(`notification:${userId}:${candidate.id}`, {
+      ...candidate,
+      type: 'bill_reminder',
+      read: false,
+      userId,
+      createdAt: new Date().toISOString()
+    });
+  }
+}
+
+// Imported transactions without a category are filed under the default "Other" category
+const IMPORT_FALLBACK_CATEGORY = 'Other';
+
+// Helper function to identify the bank account a statement belongs to. FITIDs are only unique
+// within one bank account, so they are matched together with this key.
+function ofxAccountKey(statement: OfxStatement): string {
+  return [statement.bankId, statement.accountNumber].filter(Boolean).join(':') || 'unknown';
+}
+
+const QIF_ACCOUNT_TYPES: Record<AccountType, string> = {
+  checking: 'Bank',
+  savings: 'Bank',
+  credit_card: 'CCard',
+  cash: 'Cash',
+  loan: 'Oth L'
+};
+
+// Helper function to get the colon-separated path of a category (Parent:Child), as used by QIF
+function categoryPath(categories: any[], kind: string, name: string): string {
+  const path = [name];
+  let current = categories.find(cat => cat.kind === kind && cat.name === name);
+  while (current?.parentId) {
+    current = categories.find(cat => cat.id === current.parentId);
+    if (!current || path.includes(current.name)) break;
+    path.unshift(current.name);
+  }
+  return path.join(':');
+}
+
+// Helper function to map a category path (Parent:Child) onto the category tree, creating any
+// missing categories of the given kind. New categories are added to both `categories` and
+// `created`, and the name of the last category in the path is returned.
+function resolveCategoryPath(userId: string, categories: any[], created: any[], kind: string, path: string): string {
+  let parent: any = null;
+  for (const segment of path.split(':').map(part => part.trim()).filter(Boolean)) {
+    let category = categories.find(cat => cat.kind === kind && sameCategoryName(cat.name, segment));
+    if (!category) {
+      category = {
+        id: generateId(),
+        name: segment,
+        kind,
+        color: parent?.color || '#6b7280',
+        icon: parent?.icon || 'Circle',
+        parentId: parent ? parent.id : null,
+        userId,
+        createdAt: new Date().toISOString()
+      };
+      categories.push(category);
+      created.push(category);
+    }
+    parent = category;
+  }
+  return parent ? parent.name : IMPORT_FALLBACK_CATEGORY;
+}
+
+// Helper function to turn a QIF entry into an income or expense. Split lines are kept when they
+// all go the same way as the total and add up to it; otherwise the first category is used.
+// Transfers to accounts that could not be matched are tagged rather than dropped.
+function buildQifTransaction(userId: string, entry: QifTransaction, categories: any[], created: any[], fields: any) {
+  const kind = entry.amount < 0 ? 'expense' : 'income';
+  const amount = Math.abs(entry.amount);
+
+  const splitLines = entry.splits.map(split => ({ category: split.category || '', amount: Math.abs(split.amount), memo: split.memo }));
+  const keepSplits = entry.splits.every(split => !split.transferAccount && Math.sign(split.amount) === Math.sign(entry.amount))
+    && !validateSplits(splitLines, amount);
+  const splits = keepSplits
+    ? normalizeSplits(splitLines.map(split => ({ ...split, category: resolveCategoryPath(userId, categories, created, kind, split.category) })))
+    : [];
+
+  const categoryName = entry.category || entry.splits.find(split => split.category)?.category;
+
+  return {
+    ...fields,
+    amount,
+    type: kind,
+    category: splits.length > 0
+      ? SPLIT_CATEGORY
+      : categoryName ? resolveCategoryPath(userId, categories, created, kind, categoryName) : IMPORT_FALLBACK_CATEGORY,
+    description: entry.payee || entry.memo || 'Imported transaction',
+    date: entry.date,
+    tags: entry.transferAccount ? ['transfer'] : [],
+    splits
+  };
+}
+
+// Helper function to save imported transactions, matching them against the user's existing
+// transactions and applying the duplicate strategy
+async function saveImportedTransactions(userId: string, incoming: any[], strategy: DuplicateStrategy): Promise<ImportOutcome> {
+  const existing = await kv.getByPrefix(`transaction:${userId}:`) || [];
+  const { records, outcome } = planTransactionImport(existing, incoming, strategy, new Date().toISOString());
+
+  if (records.length > 0) {
+    const linked = await assignPayees(userId, records, t => t.category === IMPORT_FALLBACK_CATEGORY);
+    await kv.mset(linked.map(t => `transaction:${userId}:${t.id}`), linked);
+    await invalidateCategoryModel(userId);
+  }
+
+  return outcome;
+}
+
+// Helper function to match the accounts in a backup to the user's accounts by name. Accounts
+// without a match are returned as new records; `ids` maps each exported id to the id to use.
+function restoreAccounts(userId: string, accounts: any[], exported: any[], importedAt: string) {
+  const ids = new Map<string, string>();
+  const records: any[] = [];
+
+  for (const account of exported) {
+    const match = [...accounts, ...records].find(existing => existing.name.trim().toLowerCase() === account.name.trim().toLowerCase());
+    if (match) {
+      ids.set(account.id, match.id);
+      continue;
+    }
+
+    const record = {
+      id: generateId(),
+      name: account.name.trim(),
+      type: account.type,
+      openingBalance: account.openingBalance,
+      userId,
+      createdAt: importedAt
+    };
+    ids.set(account.id, record.id);
+    records.push(record);
+  }
+
+  return { ids, records };
+}
+
+// Helper function to match the payees in a backup to the user's payees by name or alias. Payees
+// without a match are returned as new records, keeping the aliases no other payee uses and the
+// default category if the user has it; `ids` maps each exported id to the id to use.
+function restorePayees(userId: string, payees: any[], exported: any[], categories: any[], importedAt: string) {
+  const ids = new Map<string, string>();
+  const records: any[] = [];
+
+  for (const payee of exported) {
+    const known = [...payees, ...records];
+    const match = known.find(existing => payeeKeys(existing).includes(payeeKey(payee.name)));
+    if (match) {
+      ids.set(payee.id, match.id);
+      continue;
+    }
+    if (!payeeKey(payee.name)) continue;
+
+    const taken = new Set(known.flatMap(payeeKeys));
+    const category = payee.defaultCategory && categories.find(cat => sameCategoryName(cat.name, payee.defaultCategory));
+    const record = {
+      id: generateId(),
+      name: payee.name.trim(),
+      aliases: normalizeAliases(payee.aliases, payee.name).filter(alias => !taken.has(payeeKey(alias))),
+      defaultCategory: category ? category.name : null,
+      userId,
+      createdAt: importedAt
+    };
+    ids.set(payee.id, record.id);
+    records.push(record);
+  }
+
+  return { ids, records };
+}
+
+// Helper function to create the categories in a backup that the user does not have, matching
+// by kind and name. Parents are remapped to the user's category of the same name.
+function restoreCategories(userId: string, categories: any[], exported: any[], importedAt: string): any[] {
+  const ids = new Map<string, string>();
+  const created: any[] = [];
+
+  for (const category of exported) {
+    const match = [...categories, ...created].find(existing => existing.kind === category.kind && sameCategoryName(existing.name, category.name));
+    if (match) {
+      ids.set(category.id, match.id);
+      continue;
+    }
+
+    const record = {
+      id: generateId(),
+      name: category.name.trim(),
+      kind: category.kind,
+      color: category.color || '#6b7280',
+      icon: category.icon || 'Circle',
+      parentId: category.parentId,
+      userId,
+      createdAt: importedAt
+    };
+    ids.set(category.id, record.id);
+    created.push(record);
+  }
+
+  return created.map(category => ({ ...category, parentId: (category.parentId && ids.get(category.parentId)) || null }));
+}
+
+// Helper function to project how an import changes each budget's spending in its current period.
+// Only budgets whose spending changes, and budgets the import adds, are reported.
+async function projectBudgetImpact(userId: string, data: { budgets: any[]; importedBudgets: any[]; transactions: any[]; importedTransactions: any[]; categories: any[]; table: RateTable }) {
+  const { timezone, weekStart } = await getPreferences(userId);
+  const now = new Date(`${todayIn(timezone)}T00:00:00Z`);
+
+  const before = data.transactions.map(t => toBaseTransaction(t, data.table));
+  const after = new Map(data.transactions.map(t => [t.id, t]));
+  data.importedTransactions.forEach(t => after.set(t.id, t));
+  const afterBase = [...after.values()].map(t => toBaseTransaction(t, data.table));
+
+  const existingIds = new Set(data.budgets.map(budget => budget.id));
+  const budgets = new Map(data.budgets.map(budget => [budget.id, budget]));
+  data.importedBudgets.forEach(budget => budgets.set(budget.id, budget));
+
+  return [...budgets.values()].map(budget => {
+    const window = getPeriodWindow(budget.period, now, weekStart);
+    const isNew = !existingIds.has(budget.id);
+    const spent = isNew ? 0 : calculateBudgetSpending(budget, before, data.categories, window);
+    const projectedSpent = calculateBudgetSpending(budget, afterBase, data.categories, window);
+
+    return {
+      id: budget.id,
+      category: budget.category,
+      period: budget.period,
+      amount: budget.amount,
+      periodStart: window.start,
+      periodEnd: window.end,
+      spent,
+      projectedSpent,
+      remaining: budget.amount - projectedSpent,
+      isNew
+    };
+  }).filter(impact => impact.isNew || Math.abs(impact.projectedSpent - impact.spent) >= 0.005);
+}
+
+// Helper function to count the records an import wrote
+function importedCount(outcome: ImportOutcome): number {
+  return outcome.created + outcome.overwritten + outcome.kept;
+}
+
+// Helper function to validate a CSV import profile, keeping only the known settings
+function buildImportProfile(fields: any): { profile?: CsvImportProfile; error?: string } {
+  const error = validateCsvProfile(fields);
+  if (error) {
+    return { error };
+  }
+
+  const columns = { ...EMPTY_COLUMN_MAPPING };
+  for (const key of Object.keys(columns) as (keyof typeof columns)[]) {
+    columns[key] = fields.columns[key] ?? null;
+  }
+
+  return {
+    profile: {
+      name: fields.name.trim(),
+      delimiter: fields.delimiter,
+      hasHeader: Boolean(fields.hasHeader),
+      dateFormat: fields.dateFormat,
+      decimalSeparator: fields.decimalSeparator,
+      columns
+    }
+  };
+}
+
+// Helper function to get a user's base currency and exchange-rate table
+async function getRateTable(userId: string): Promise<RateTable> {
+  return (await kv.get(`fx:${userId}`)) ?? { baseCurrency: DEFAULT_BASE_CURRENCY, rates: {}, updatedAt: null };
+}
+
+// Helper function to get a user's display preferences, filling in defaults for unset fields
+async function getPreferences(userId: string): Promise<Preferences> {
+  return { ...DEFAULT_PREFERENCES, ...(await kv.get(`prefs:${userId}`)) };
+}
+
+// Helper function to get the budget period window containing today in the user's timezone,
+// with weeks starting on their preferred day
+async function getCurrentPeriodWindow(userId: string, period: BudgetPeriod): Promise<PeriodWindow> {
+  const { timezone, weekStart } = await getPreferences(userId);
+  return getPeriodWindow(period, new Date(`${todayIn(timezone)}T00:00:00Z`), weekStart);
+}
+
+// Helper function to load a user's transactions with amounts converted to their base currency,
+// for totals that mix currencies. Stored transactions keep their original amounts.
+async function getBaseTransactions(userId: string): Promise<any[]> {
+  const table = await getRateTable(userId);
+  const transactions = await kv.getByPrefix(`transaction:${userId}:`);
+  return (transactions || []).map(t => toBaseTransaction(t, table));
+}
+
+// Helper function to validate a transaction currency, defaulting to the existing currency
+// or else the user's base currency
+async function resolveCurrency(userId: string, currency: unknown, fallback?: string): Promise<{ currency?: string; error?: string }> {
+  if (currency === undefined || currency === null || currency === '') {
+    return { currency: fallback || (await getRateTable(userId)).baseCurrency };
+  }
+
+  const code = String(currency).trim().toUpperCase();
+  if (!isCurrencyCode(code)) {
+    return { error: 'Invalid currency, expected a three-letter ISO 4217 code' };
+  }
+
+  return { currency: code };
+}
+
+// Helper function to clean up free-form tags: trimmed, lowercase, hyphenated and unique
+function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+
+  const normalized = tags
+    .filter(tag => typeof tag === 'string')
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-').slice(0, 40))
+    .filter(tag => tag.length > 0);
+
+  return [...new Set(normalized)];
+}
+
+// Helper function to get a user's categories, seeding the defaults on first use
+async function getCategories(userId: string): Promise<any[]> {
+  const categories = await kv.getByPrefix(`category:${userId}:`);
+  if (categories && categories.length > 0) {
+    return categories;
+  }
+
+  const createdAt = new Date().toISOString();
+  const defaults = DEFAULT_CATEGORIES.map(category => ({
+    ...category,
+    id: generateId(),
+    parentId: null,
+    userId,
+    createdAt
+  }));
+
+  await kv.mset(defaults.map(cat => `category:${userId}:${cat.id}`), defaults);
+  return defaults;
+}
+
+// Helper function to collect the transactions, recurring rules, categorization rules, payees, budgets and bills
+// that reference a category name, rewritten to the new name and ready to be written in a single kv.mset
+async function rewriteCategoryReferences(userId: string, kind: string, fromName: string, toName: string) {
+  const keys: string[] = [];
+  const values: any[] = [];
+  const updatedAt = new Date().toISOString();
+
+  const transactions = await kv.getByPrefix(`transaction:${userId}:`);
+  for (const transaction of transactions || []) {
+    if (transaction.type === kind && transactionCategories(transaction).includes(fromName)) {
+      keys.push(`transaction:${userId}:${transaction.id}`);
+      values.push(transaction.splits?.length
+        ? { ...transaction, splits: transaction.splits.map((s: any) => s.category === fromName ? { ...s, category: toName } : s), updatedAt }
+        : { ...transaction, category: toName, updatedAt });
+    }
+  }
+
+  const rules = await kv.getByPrefix(`recurring:${userId}:`);
+  for (const rule of rules || []) {
+    if (rule.type === kind && rule.category === fromName) {
+      keys.push(`recurring:${userId}:${rule.id}`);
+      values.push({ ...rule, category: toName, updatedAt });
+    }
+  }
+
+  // A categorization rule without a type condition sets the category on both kinds of transaction
+  const categorizationRules = await getRules(userId);
+  for (const rule of categorizationRules) {
+    if (rule.actions.category === fromName && (!rule.conditions.type || rule.conditions.type === kind)) {
+      keys.push(`rule:${userId}:${rule.id}`);
+      values.push({ ...rule, actions: { ...rule.actions, category: toName }, updatedAt });
+    }
+  }
+
+  // Like rules without a type, a payee's default category applies to income and expenses alike
+  const payees = await kv.getByPrefix(`payee:${userId}:`);
+  for (const payee of payees || []) {
+    if (payee.defaultCategory === fromName) {
+      keys.push(`payee:${userId}:${payee.id}`);
+      values.push({ ...payee, defaultCategory: toName, updatedAt });
+    }
+  }
+
+  if (kind === 'expense') {
+    const budgets = await kv.getByPrefix(`budget:${userId}:`);
+    for (const budget of budgets || []) {
+      if (budget.category === fromName) {
+        keys.push(`budget:${userId}:${budget.id}`);
+        values.push({ ...budget, category: toName, updatedAt });
+      }
+    }
+
+    const bills = await kv.getByPrefix(`bill:${userId}:`);
+    for (const bill of bills || []) {
+      if (bill.category === fromName) {
+        keys.push(`bill:${userId}:${bill.id}`);
+        values.push({ ...bill, category: toName, updatedAt });
+      }
+    }
+  }
+
+  return { keys, values };
+}
+
+const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+// Helper function to sanitize budget alert thresholds (percentages of the budget amount)
+function normalizeThresholds(thresholds: unknown): number[] {
+  if (!Array.isArray(thresholds)) {
+    return DEFAULT_ALERT_THRESHOLDS;
+  }
+
+  const values = thresholds
+    .map(t => Number(t))
+    .filter(t => Number.isFinite(t) && t > 0 && t <= 1000);
+
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+// Helper function to sum a budget's expenses within a period window. Spending in
+// subcategories rolls up into budgets that target a parent category, and only the
+// matching lines of a split expense count. Transactions must be in the base currency.
+function calculateBudgetSpending(budget: any, transactions: any[], categories: any[], window: PeriodWindow): number {
+  const scope = getCategoryScope(categories, 'expense', budget.category);
+  return transactions
+    .filter(t => t.type === 'expense' && isWithinWindow(t.date, window))
+    .flatMap(t => categoryAmounts(t))
+    .filter(line => scope.has(line.category))
+    .reduce((sum, line) => sum + line.amount, 0);
+}
+
+const MAX_STATEMENT_RANGE_YEARS = 5;
+
+// Helper function to read the statement range from `month` (YYYY-MM) or `from` and `to`
+// (YYYY-MM-DD), defaulting to the current month
+function parseStatementRange(query: Record<string, string>, today: string): { window?: PeriodWindow; error?: string } {
+  if (query.from || query.to) {
+    const { from, to } = query;
+    if (!isCalendarDate(from) || !isCalendarDate(to)) {
+      return { error: 'Statement range needs from and to dates in YYYY-MM-DD format' };
+    }
+    if (to < from) {
+      return { error: 'Statement range must end on or after its start' };
+    }
+    const limit = new Date(`${from}T00:00:00Z`);
+    limit.setUTCFullYear(limit.getUTCFullYear() + MAX_STATEMENT_RANGE_YEARS);
+    if (new Date(`${to}T00:00:00Z`) >= limit) {
+      return { error: `Statement range can span at most ${MAX_STATEMENT_RANGE_YEARS} years` };
+    }
+    return { window: { start: from, end: to } };
+  }
+
+  const month = query.month || today.slice(0, 7);
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    return { error: 'Statement month must be in YYYY-MM format' };
+  }
+  return { window: getPeriodWindow('monthly', new Date(`${month}-01T00:00:00Z`)) };
+}
+
+const STATEMENT_LARGEST_TRANSACTIONS = 10;
+const STATEMENT_TOP_PAYEES = 10;
+
+// Helper function to build the statement report for a date range. Totals are in the base currency.
+// A budget's amount is prorated over the days each of its periods shares with the range.
+async function buildStatementReport(userId: string, window: PeriodWindow): Promise<StatementReport> {
+  const table = await getRateTable(userId);
+  const categories = await getCategories(userId);
+  const budgets = await kv.getByPrefix(`budget:${userId}:`) || [];
+  const payees = await getPayees(userId);
+  const { weekStart } = await getPreferences(userId);
+  const stored = (await kv.getByPrefix(`transaction:${userId}:`) || []).filter(t => isWithinWindow(t.date, window));
+  const transactions = stored.map(t => toBaseTransaction(t, table));
+  const originals = new Map(stored.map(t => [t.id, t]));
+
+  const budgetComparisons = budgets.map(budget => {
+    const budgeted = getPeriodWindowsBetween(budget.period, window.start, window.end, weekStart)
+      .reduce((sum, period) => sum + budget.amount * overlapDays(period, window) / overlapDays(period, period), 0);
+    const spent = calculateBudgetSpending(budget, transactions, categories, window);
+
+    return {
+      id: budget.id,
+      category: budget.category,
+      period: budget.period,
+      budgeted,
+      spent,
+      remaining: budgeted - spent
+    };
+  }).sort((a, b) => a.category.localeCompare(b.category));
+
+  return {
+    from: window.start,
+    to: window.end,
+    baseCurrency: table.baseCurrency,
+    generatedAt: new Date().toISOString(),
+    totals: summarizeTransactions(transactions),
+    expenseCategories: rollUpCategoryTotals(categoryTotals(transactions, 'expense'), categories, 'expense', null),
+    incomeCategories: rollUpCategoryTotals(categoryTotals(transactions, 'income'), categories, 'income', null),
+    budgets: budgetComparisons,
+    topPayees: payeeTotals(transactions, STATEMENT_TOP_PAYEES).map(total => ({
+      ...total,
+      name: payees.find(payee => payee.id === total.payeeId)?.name ?? 'Unknown payee'
+    })),
+    largestTransactions: largestTransactions(transactions, STATEMENT_LARGEST_TRANSACTIONS).map(t => ({
+      id: t.id,
+      date: t.date,
+      description: t.description,
+      category: t.category,
+      type: t.type,
+      amount: t.amount,
+      originalAmount: originals.get(t.id).amount,
+      currency: originals.get(t.id).currency || null
+    }))
+  };
+}
+
+// Helper function to emit a notification for each alert threshold the budget has crossed
+// in its current period. Notification ids are derived from the budget, period and threshold,
+// so each threshold is reported at most once per period.
+async function checkBudgetThresholds(userId: string, budget: any, transactions: any[], categories: any[]) {
+  if (!budget.amount || budget.amount <= 0) return;
+
+  const window = await getCurrentPeriodWindow(userId, budget.period);
+  const spent = calculateBudgetSpending(budget, transactions, categories, window);
+  const percentage = (spent / budget.amount) * 100;
+
+  const { baseCurrency } = await getRateTable(userId);
+  const thresholds = budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS;
+  for (const threshold of thresholds.filter((t: number) => percentage >= t)) {
+    const id = `budget_${budget.id}_${window.start}_${threshold}`;
+    const existingNotification = await kv.get(`notification:${userId}:${id}`);
+    if (existingNotification) continue;
+
+    await kv.set(`notification:${userId}:${id}`, {
+      id,
+      type: 'budget_threshold',
+      title: threshold >= 100 ? `${budget.category} budget exceeded` : `${budget.category} budget at ${threshold}%`,
+      message: `You have spent ${formatCurrency(spent, baseCurrency)} of your ${budget.period} ${formatCurrency(budget.amount, baseCurrency)} ${budget.category} budget.`,
+      budgetId: budget.id,
+      category: budget.category,
+      threshold,
+      periodStart: window.start,
+      read: false,
+      userId,
+      createdAt: new Date().toISOString()
+    });
+  }
+}
+
+// Helper function to react to budget spending changes for the categories of an expense
+async function updateBudgetSpending(userId: string, categoryNames: string[], date: string) {
+  try {
+    // Budgets on the categories themselves or on any of their parent categories are affected
+    const categories = await getCategories(userId);
+    const budgets = (await kv.getByPrefix(`budget:${userId}:`) || [])
+      .filter(b => {
+        const scope = getCategoryScope(categories, 'expense', b.category);
+        return categoryNames.some(name => scope.has(name));
+      });
+    if (budgets.length === 0) return;
+
+    const transactions = await getBaseTransactions(userId);
+    for (const budget of budgets) {
+      // Only expenses in the current period can push a budget over a threshold
+      if (!isWithinWindow(date, await getCurrentPeriodWindow(userId, budget.period))) continue;
+      await checkBudgetThresholds(userId, budget, transactions, categories);
     }
   } catch (error) {
     console.log('Error updating budget spending:', error);
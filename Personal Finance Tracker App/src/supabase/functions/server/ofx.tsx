@@ -0,0 +1,137 @@
+// OFX/QFX statement parsing. OFX 1.x is SGML, where leaf elements are usually left unclosed
+// (`<TRNAMT>-12.50`), and OFX 2.x is XML; both close their aggregates (`</STMTTRN>`), so one
+// tolerant scanner reads either. QFX is OFX with extra Quicken-specific elements, which are ignored.
+
+export interface OfxTransaction {
+  fitId: string;
+  type: string;
+  date: string;
+  amount: number;
+  name: string;
+  memo: string;
+  checkNumber: string | null;
+}
+
+export interface OfxBalance {
+  amount: number;
+  date: string | null;
+}
+
+export interface OfxStatement {
+  currency: string | null;
+  bankId: string | null;
+  accountNumber: string | null;
+  accountType: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  transactions: OfxTransaction[];
+  ledgerBalance: OfxBalance | null;
+  availableBalance: OfxBalance | null;
+}
+
+// Bank and credit card statement aggregates
+const STATEMENT_TAGS = ['STMTRS', 'CCSTMTRS'];
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+// Contents of every `<TAG>...</TAG>` aggregate in the text
+function aggregates(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return [...text.matchAll(pattern)].map(match => match[1]);
+}
+
+// Value of the first leaf element with the tag, whether or not it has a closing tag
+function leaf(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1]).trim() : '';
+  return value || null;
+}
+
+// OFX dates look like 20240305, 20240305120000 or 20240305120000.000[-5:EST]; only the
+// calendar day is kept, matching how transaction dates are stored
+export function parseOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (Number.isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+
+  return `${year}-${month}-${day}`;
+}
+
+// Amounts are signed decimals; some banks use a decimal comma
+function parseOfxAmount(value: string | null): number | null {
+  if (!value) return null;
+  const amount = Number(value.replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function parseBalance(text: string, tag: string): OfxBalance | null {
+  const [balance] = aggregates(text, tag);
+  if (balance === undefined) return null;
+
+  const amount = parseOfxAmount(leaf(balance, 'BALAMT'));
+  return amount === null ? null : { amount, date: parseOfxDate(leaf(balance, 'DTASOF')) };
+}
+
+function parseStatement(text: string): OfxStatement {
+  const [transactionList = ''] = aggregates(text, 'BANKTRANLIST');
+  const transactions: OfxTransaction[] = [];
+
+  for (const entry of aggregates(transactionList, 'STMTTRN')) {
+    const fitId = leaf(entry, 'FITID');
+    const date = parseOfxDate(leaf(entry, 'DTPOSTED'));
+    const amount = parseOfxAmount(leaf(entry, 'TRNAMT'));
+    // Entries without an id, date or amount cannot be imported or deduplicated reliably
+    if (!fitId || !date || amount === null) continue;
+
+    transactions.push({
+      fitId,
+      type: leaf(entry, 'TRNTYPE') || 'OTHER',
+      date,
+      amount,
+      name: leaf(entry, 'NAME') || leaf(entry, 'PAYEE') || '',
+      memo: leaf(entry, 'MEMO') || '',
+      checkNumber: leaf(entry, 'CHECKNUM'),
+    });
+  }
+
+  const [account = ''] = [...aggregates(text, 'BANKACCTFROM'), ...aggregates(text, 'CCACCTFROM')];
+
+  return {
+    currency: leaf(text, 'CURDEF'),
+    bankId: leaf(account, 'BANKID'),
+    accountNumber: leaf(account, 'ACCTID'),
+    accountType: leaf(account, 'ACCTTYPE') || (text.match(/<CCACCTFROM>/i) ? 'CREDITCARD' : null),
+    startDate: parseOfxDate(leaf(transactionList, 'DTSTART')),
+    endDate: parseOfxDate(leaf(transactionList, 'DTEND')),
+    transactions,
+    ledgerBalance: parseBalance(text, 'LEDGERBAL'),
+    availableBalance: parseBalance(text, 'AVAILBAL'),
+  };
+}
+
+// Parses every bank and credit card statement in an OFX or QFX file
+export function parseOfx(content: string): { statements?: OfxStatement[]; error?: string } {
+  const start = content.search(/<OFX>/i);
+  if (start === -1) {
+    return { error: 'The file is not an OFX or QFX statement' };
+  }
+
+  const body = content.slice(start);
+  const statements = STATEMENT_TAGS.flatMap(tag => aggregates(body, tag)).map(parseStatement);
+  if (statements.length === 0) {
+    return { error: 'The file does not contain any bank or credit card statements' };
+  }
+
+  return { statements };
+}
@@ -0,0 +1,125 @@
+// Payees: the merchants and people behind transactions. Bank descriptions such as
+// "POS 4432 STARBUCKS #1123 SEATTLE" are reduced to a payee name ("Starbucks"), and a payee
+// is matched by its name or any of its aliases after the same reduction, so the many
+// descriptions a bank uses for one merchant all lead to the same payee.
+
+import { sameCategoryName } from './categories.tsx';
+
+export interface Payee {
+  id: string;
+  name: string;
+  aliases: string[];
+  // Category given to uncategorized transactions with this payee
+  defaultCategory: string | null;
+}
+
+export interface PayeeContext {
+  payees: Payee[];
+  categories: any[];
+  // Builds the record for a payee seen for the first time
+  create: (name: string) => Payee;
+  // Whether a transaction still needs a category, and so takes the payee's default
+  isUncategorized: (transaction: any) => boolean;
+}
+
+// Words banks put before the merchant name on card, debit and transfer transactions
+const BANK_PREFIXES = new Set([
+  'pos', 'purchase', 'debit', 'credit', 'card', 'checkcard', 'visa', 'mastercard', 'maestro', 'contactless',
+  'ach', 'eft', 'dd', 'recurring', 'online', 'web', 'pmt', 'bill', 'payment',
+]);
+
+// Payment processors that put their own marker before the merchant, as in "SQ *BLUE BOTTLE"
+const PROCESSOR_PREFIXES = new Set(['sq', 'tst', 'paypal', 'pp', 'sp', 'ic', 'pyp', 'sumup', 'zettle', 'izettle']);
+
+// Store and card numbers, dates and references: "#1123", "4432", "12/03", "XXXX1234"
+function isReference(word: string): boolean {
+  return word.startsWith('#') || /^\d[\d\-\/.:]*$/.test(word) || /^[x*]+\d+$/i.test(word);
+}
+
+function titleCase(name: string): string {
+  return name.toLowerCase().replace(/(^|[\s\-\/&])(\p{L})/gu, (_, separator, letter) => separator + letter.toUpperCase());
+}
+
+// Reduces a bank description to the payee name it names. The words after a store number are
+// usually the store's location and are dropped. Names in capitals are title-cased; names with
+// lowercase letters were typed by the user and keep their casing.
+export function normalizePayeeName(description: string): string {
+  let text = String(description ?? '').replace(/\s+/g, ' ').trim();
+
+  // "SQ *BLUE BOTTLE" names the merchant after the marker, "AMAZON.COM*AB12CD" before it
+  const parts = text.split('*').map(part => part.trim()).filter(Boolean);
+  if (parts.length > 1) {
+    text = PROCESSOR_PREFIXES.has(parts[0].toLowerCase()) ? parts[1] : parts[0];
+  }
+
+  const words = text.split(' ');
+  while (words.length > 0 && (BANK_PREFIXES.has(words[0].toLowerCase().replace(/[:\-]$/, '')) || isReference(words[0]))) {
+    words.shift();
+  }
+  const end = words.findIndex(isReference);
+  const name = (end === -1 ? words : words.slice(0, end)).join(' ').replace(/^[\s\-:,.]+|[\s\-:,]+$/g, '');
+
+  return /\p{Ll}/u.test(name) ? name : titleCase(name);
+}
+
+// Compares names without regard to case or punctuation
+export function payeeKey(name: string): string {
+  return normalizePayeeName(name).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+export function payeeKeys(payee: Pick<Payee, 'name' | 'aliases'>): string[] {
+  return [payee.name, ...payee.aliases].map(payeeKey).filter(Boolean);
+}
+
+// Trims aliases and drops blanks and any that match the payee's name or an earlier alias
+export function normalizeAliases(aliases: unknown, name: string): string[] {
+  const seen = new Set([payeeKey(name)]);
+  const result: string[] = [];
+  for (const alias of Array.isArray(aliases) ? aliases : []) {
+    const value = typeof alias === 'string' ? alias.trim() : '';
+    const key = payeeKey(value);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+// Finds the payee whose name or an alias matches the description
+export function findPayee<T extends Payee>(payees: T[], description: string): T | null {
+  const key = payeeKey(description);
+  if (!key) return null;
+  return payees.find(payee => payeeKeys(payee).includes(key)) ?? null;
+}
+
+// Links income and expense transactions to the payee their description names, creating
+// payees for names not seen before. Transactions already linked to a known payee keep it.
+// Uncategorized transactions that are not split take the payee's default category when the
+// user has a category of that name for the transaction's type.
+export function linkPayees(transactions: any[], context: PayeeContext): { transactions: any[]; created: Payee[] } {
+  const payees = [...context.payees];
+  const created: Payee[] = [];
+
+  const linked = transactions.map(transaction => {
+    if (transaction.type !== 'income' && transaction.type !== 'expense') return transaction;
+
+    let payee = payees.find(p => p.id === transaction.payeeId) ?? findPayee(payees, transaction.description);
+    if (!payee) {
+      const name = normalizePayeeName(transaction.description);
+      if (!name) return { ...transaction, payeeId: null };
+      payee = context.create(name);
+      payees.push(payee);
+      created.push(payee);
+    }
+
+    const updated = { ...transaction, payeeId: payee.id };
+    if (payee.defaultCategory && !(transaction.splits?.length > 0) && context.isUncategorized(transaction)) {
+      const category = context.categories.find(cat => cat.kind === transaction.type && sameCategoryName(cat.name, payee!.defaultCategory!));
+      if (category) updated.category = category.name;
+    }
+    return updated;
+  });
+
+  return { transactions: linked, created };
+}
@@ -0,0 +1,73 @@
+// Budget period windows. Dates are handled as UTC calendar days in YYYY-MM-DD form,
+// which matches how transaction dates are stored.
+
+export type BudgetPeriod = 'monthly' | 'weekly';
+
+export interface PeriodWindow {
+  start: string;
+  end: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Returns the inclusive window of the given period that contains the reference date.
+// weekStart is the first day of the week (0 = Sunday, 1 = Monday, ...).
+export function getPeriodWindow(period: BudgetPeriod, reference: Date, weekStart = 0): PeriodWindow {
+  const year = reference.getUTCFullYear();
+  const month = reference.getUTCMonth();
+
+  if (period === 'weekly') {
+    const day = Date.UTC(year, month, reference.getUTCDate());
+    const offset = (reference.getUTCDay() - weekStart + 7) % 7;
+    const start = new Date(day - offset * DAY_MS);
+    return { start: toDateString(start), end: toDateString(new Date(start.getTime() + 6 * DAY_MS)) };
+  }
+
+  return {
+    start: toDateString(new Date(Date.UTC(year, month, 1))),
+    end: toDateString(new Date(Date.UTC(year, month + 1, 0))),
+  };
+}
+
+// Returns the current window followed by `previous` earlier windows, most recent first
+export function getPeriodWindows(period: BudgetPeriod, reference: Date, previous: number, weekStart = 0): PeriodWindow[] {
+  const windows = [getPeriodWindow(period, reference, weekStart)];
+
+  for (let i = 0; i < previous; i++) {
+    // The day before a window's start always falls in the preceding window
+    const dayBefore = new Date(new Date(`${windows[windows.length - 1].start}T00:00:00Z`).getTime() - DAY_MS);
+    windows.push(getPeriodWindow(period, dayBefore, weekStart));
+  }
+
+  return windows;
+}
+
+export function isWithinWindow(date: string, window: PeriodWindow): boolean {
+  return date >= window.start && date <= window.end;
+}
+
+// Returns the windows of the given period that overlap the inclusive date range, earliest first
+export function getPeriodWindowsBetween(period: BudgetPeriod, start: string, end: string, weekStart = 0): PeriodWindow[] {
+  const windows: PeriodWindow[] = [];
+  let reference = new Date(`${start}T00:00:00Z`);
+
+  while (toDateString(reference) <= end) {
+    const window = getPeriodWindow(period, reference, weekStart);
+    windows.push(window);
+    reference = new Date(new Date(`${window.end}T00:00:00Z`).getTime() + DAY_MS);
+  }
+
+  return windows;
+}
+
+// Number of days a window shares with another, counting both ends
+export function overlapDays(window: PeriodWindow, other: PeriodWindow): number {
+  const start = window.start > other.start ? window.start : other.start;
+  const end = window.end < other.end ? window.end : other.end;
+  if (start > end) return 0;
+  return Math.round((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / DAY_MS) + 1;
+}
@@ -0,0 +1,250 @@
+// QIF (Quicken Interchange Format) reading and writing. A QIF file is a series of sections,
+// each introduced by a `!Type:` header, holding records of one-letter-prefixed lines that end
+// with `^`. Categories are written as colon-separated paths (`Food:Groceries`), optionally
+// followed by `/class`; a category in brackets (`[Savings]`) is a transfer to that account.
+
+export type QifDateOrder = 'MDY' | 'DMY';
+
+export interface QifSplit {
+  category: string | null;
+  transferAccount: string | null;
+  amount: number;
+  memo: string;
+}
+
+export interface QifTransaction {
+  date: string;
+  amount: number;
+  payee: string;
+  memo: string;
+  category: string | null;
+  transferAccount: string | null;
+  checkNumber: string | null;
+  splits: QifSplit[];
+}
+
+export interface QifSection {
+  accountName: string | null;
+  type: string;
+  transactions: QifTransaction[];
+}
+
+export interface QifCategory {
+  path: string;
+  kind: 'income' | 'expense';
+  description: string;
+}
+
+// Sections holding bank-style transactions; investment and memorized-item sections are skipped
+const TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+// QIF dates come in many shapes: 1/5/24, 01/05/2024, 1/ 5'24 (an apostrophe marks a year
+// after 1999), 1-5-2024 and 2024-01-05
+export function parseQifDate(value: string, order: QifDateOrder = 'MDY'): string | null {
+  const text = value.trim();
+  const modern = text.includes("'");
+  const parts = text.split(/[/'.\-\s]+/).filter(Boolean).map(Number);
+  if (parts.length !== 3 || parts.some(Number.isNaN)) return null;
+
+  let year: number, month: number, day: number;
+  if (parts[0] > 999) {
+    [year, month, day] = parts;
+  } else if (order === 'DMY') {
+    [day, month, year] = parts;
+  } else {
+    [month, day, year] = parts;
+  }
+  if (year < 100) year += modern || year < 50 ? 2000 : 1900;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().split('T')[0];
+}
+
+function parseQifAmount(value: string): number {
+  const amount = Number(value.replace(/[,\s]/g, ''));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// Splits an `L` or `S` value into a category path or a transfer account, dropping any class
+function parseCategoryField(value: string): { category: string | null; transferAccount: string | null } {
+  const [field] = value.split('/');
+  const transfer = field.match(/^\[(.*)\]$/);
+  if (transfer) return { category: null, transferAccount: transfer[1].trim() || null };
+  return { category: field.trim() || null, transferAccount: null };
+}
+
+// Records of a section as maps of line prefix to values, in order
+function records(lines: string[]): { code: string; value: string }[][] {
+  const result: { code: string; value: string }[][] = [];
+  let current: { code: string; value: string }[] = [];
+
+  for (const line of lines) {
+    if (line.startsWith('^')) {
+      if (current.length > 0) result.push(current);
+      current = [];
+    } else if (line) {
+      current.push({ code: line[0], value: line.slice(1).trim() });
+    }
+  }
+  if (current.length > 0) result.push(current);
+
+  return result;
+}
+
+function parseTransaction(record: { code: string; value: string }[], order: QifDateOrder): QifTransaction | null {
+  const transaction: QifTransaction = {
+    date: '', amount: 0, payee: '', memo: '', category: null, transferAccount: null, checkNumber: null, splits: []
+  };
+  let split: QifSplit | null = null;
+
+  for (const { code, value } of record) {
+    switch (code) {
+      case 'D':
+        transaction.date = parseQifDate(value, order) || '';
+        break;
+      case 'T':
+      case 'U':
+        transaction.amount = parseQifAmount(value);
+        break;
+      case 'P':
+        transaction.payee = value;
+        break;
+      case 'M':
+        transaction.memo = value;
+        break;
+      case 'N':
+        transaction.checkNumber = value || null;
+        break;
+      case 'L':
+        Object.assign(transaction, parseCategoryField(value));
+        break;
+      case 'S':
+        split = { ...parseCategoryField(value), amount: 0, memo: '' };
+        transaction.splits.push(split);
+        break;
+      case 'E':
+        if (split) split.memo = value;
+        break;
+      case '$':
+        if (split) split.amount = parseQifAmount(value);
+        break;
+    }
+  }
+
+  return transaction.date ? transaction : null;
+}
+
+// Parses the transaction and category sections of a QIF file. Records without a readable date
+// are skipped and counted.
+export function parseQif(content: string, order: QifDateOrder = 'MDY'): { sections?: QifSection[]; categories?: QifCategory[]; skipped?: number; error?: string } {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trimEnd());
+  if (!lines.some(line => /^!(Type|Account)/i.test(line))) {
+    return { error: 'The file is not a QIF file' };
+  }
+
+  const sections: QifSection[] = [];
+  const categories: QifCategory[] = [];
+  let skipped = 0;
+  let accountName: string | null = null;
+  let header = '';
+  let body: string[] = [];
+
+  const flush = () => {
+    const type = header.replace(/^!Type:/i, '').trim();
+    if (/^!Account/i.test(header)) {
+      // An account block names the account the following transaction section belongs to;
+      // blocks listing several accounts (written under !Option:AutoSwitch) are only a directory
+      const accounts = records(body);
+      if (accounts.length === 1) {
+        accountName = accounts[0].find(line => line.code === 'N')?.value || accountName;
+      }
+    } else if (/^!Type:Cat/i.test(header)) {
+      for (const record of records(body)) {
+        const path = record.find(line => line.code === 'N')?.value;
+        if (!path) continue;
+        categories.push({
+          path,
+          kind: record.some(line => line.code === 'I') ? 'income' : 'expense',
+          description: record.find(line => line.code === 'D')?.value || '',
+        });
+      }
+    } else if (TRANSACTION_TYPES.includes(type.toLowerCase())) {
+      const transactions = records(body).map(record => parseTransaction(record, order));
+      skipped += transactions.filter(t => !t).length;
+      sections.push({ accountName, type, transactions: transactions.filter((t): t is QifTransaction => t !== null) });
+    }
+    body = [];
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('!')) {
+      if (header) flush();
+      header = line;
+      // Option lines such as !Option:AutoSwitch have no records of their own
+      if (/^!(Option|Clear):/i.test(line)) header = '';
+    } else if (header) {
+      body.push(line);
+    }
+  }
+  if (header) flush();
+
+  return { sections, categories, skipped };
+}
+
+export interface QifExportAccount {
+  name: string | null;
+  type: string;
+  transactions: QifTransaction[];
+}
+
+function formatQifDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+function formatQifCategory(category: string | null, transferAccount: string | null): string {
+  return transferAccount ? `[${transferAccount}]` : category || '';
+}
+
+// Writes a QIF file with the category list followed by one section per account. Transactions
+// that are not in an account come first, in a section without an account header.
+export function buildQif(accounts: QifExportAccount[], categories: QifCategory[]): string {
+  const lines: string[] = [];
+
+  if (categories.length > 0) {
+    lines.push('!Type:Cat');
+    for (const category of categories) {
+      lines.push(`N${category.path}`);
+      if (category.description) lines.push(`D${category.description}`);
+      lines.push(category.kind === 'income' ? 'I' : 'E', '^');
+    }
+  }
+
+  for (const account of [...accounts].sort((a, b) => (a.name === null ? -1 : b.name === null ? 1 : 0))) {
+    if (account.transactions.length === 0) continue;
+
+    if (account.name !== null) {
+      lines.push('!Account', `N${account.name}`, `T${account.type}`, '^');
+    }
+    lines.push(`!Type:${account.type}`);
+
+    for (const transaction of account.transactions) {
+      lines.push(`D${formatQifDate(transaction.date)}`, `T${transaction.amount.toFixed(2)}`);
+      if (transaction.checkNumber) lines.push(`N${transaction.checkNumber}`);
+      if (transaction.payee) lines.push(`P${transaction.payee}`);
+      if (transaction.memo) lines.push(`M${transaction.memo}`);
+      const category = formatQifCategory(transaction.category, transaction.transferAccount);
+      if (category) lines.push(`L${category}`);
+      for (const split of transaction.splits) {
+        lines.push(`S${formatQifCategory(split.category, split.transferAccount)}`);
+        if (split.memo) lines.push(`E${split.memo}`);
+        lines.push(`$${split.amount.toFixed(2)}`);
+      }
+      lines.push('^');
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,93 @@
+// Recurring transaction schedules. Occurrence dates are UTC calendar days in YYYY-MM-DD form,
+// like transaction dates, and are derived from the rule's start date so they never drift.
+
+export const RECURRING_FREQUENCIES = ['daily', 'weekly', 'biweekly', 'monthly', 'yearly'] as const;
+export const RECURRING_MODES = ['auto', 'remind'] as const;
+
+export type RecurringFrequency = typeof RECURRING_FREQUENCIES[number];
+export type RecurringMode = typeof RECURRING_MODES[number];
+
+export interface RecurringSchedule {
+  frequency: RecurringFrequency;
+  startDate: string;
+  endDate?: string | null;
+  occurrences?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on generated occurrences, roughly 25 years of daily postings
+const MAX_OCCURRENCES = 10000;
+
+export function isRecurringFrequency(frequency: unknown): frequency is RecurringFrequency {
+  return RECURRING_FREQUENCIES.includes(frequency as RecurringFrequency);
+}
+
+export function isRecurringMode(mode: unknown): mode is RecurringMode {
+  return RECURRING_MODES.includes(mode as RecurringMode);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Date of the nth occurrence (0 = the start date). Monthly and yearly schedules keep the start
+// date's day of month, falling back to the last day of shorter months.
+function nthOccurrence(schedule: RecurringSchedule, n: number): string {
+  const start = new Date(`${schedule.startDate}T00:00:00Z`);
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return toDateString(new Date(start.getTime() + n * DAY_MS));
+    case 'weekly':
+      return toDateString(new Date(start.getTime() + n * 7 * DAY_MS));
+    case 'biweekly':
+      return toDateString(new Date(start.getTime() + n * 14 * DAY_MS));
+    case 'monthly': {
+      const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + n) / 12);
+      const month = (start.getUTCMonth() + n) % 12;
+      return toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth(year, month)))));
+    }
+    case 'yearly': {
+      const year = start.getUTCFullYear() + n;
+      const month = start.getUTCMonth();
+      return toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth(year, month)))));
+    }
+  }
+}
+
+// Returns the schedule's occurrence dates within the inclusive range, honouring its end date
+// and occurrence count
+export function occurrencesBetween(schedule: RecurringSchedule, from: string, to: string): string[] {
+  const dates: string[] = [];
+  const limit = Math.min(schedule.occurrences || MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  for (let n = 0; n < limit; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (date > to || (schedule.endDate && date > schedule.endDate)) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+}
+
+// Returns the first occurrence on or after the given date, or null when the schedule has ended
+export function nextOccurrence(schedule: RecurringSchedule, onOrAfter: string): string | null {
+  const limit = Math.min(schedule.occurrences || MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  for (let n = 0; n < limit; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (schedule.endDate && date > schedule.endDate) return null;
+    if (date >= onOrAfter) return date;
+  }
+
+  return null;
+}
+
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS));
+}
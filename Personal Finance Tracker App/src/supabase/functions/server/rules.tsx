@@ -0,0 +1,112 @@
+// Auto-categorization rules. A rule matches a transaction when all of its conditions hold and
+// then sets the category, description or account and adds tags. Rules run in order and earlier
+// rules take priority: a field set by one rule is left alone by later ones, while the tags of
+// every matching rule are added. Conditions are tested against the transaction as it came in,
+// so a description set by one rule does not change which later rules match. Transfers are
+// never changed by rules, and neither are fields the user set themselves.
+
+import { sameCategoryName } from './categories.tsx';
+
+export interface RuleConditions {
+  // Case-insensitive substring of the description
+  contains: string | null;
+  // Case-insensitive regular expression tested against the description
+  pattern: string | null;
+  // Inclusive bounds on the amount, in the transaction's own currency
+  minAmount: number | null;
+  maxAmount: number | null;
+  type: 'income' | 'expense' | null;
+}
+
+export interface RuleActions {
+  category: string | null;
+  tags: string[];
+  description: string | null;
+  accountId: string | null;
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  position: number;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+export interface RuleContext {
+  categories: any[];
+  accountIds: Set<string>;
+}
+
+export function hasConditions(conditions: RuleConditions): boolean {
+  return !!conditions.contains || !!conditions.pattern || conditions.minAmount !== null ||
+    conditions.maxAmount !== null || conditions.type !== null;
+}
+
+export function hasActions(actions: RuleActions): boolean {
+  return !!actions.category || actions.tags.length > 0 || !!actions.description || !!actions.accountId;
+}
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function matchesRule(rule: CategorizationRule, transaction: any): boolean {
+  const { contains, pattern, minAmount, maxAmount, type } = rule.conditions;
+  const description = String(transaction.description ?? '');
+
+  if (transaction.type === 'transfer') return false;
+  if (type && transaction.type !== type) return false;
+  if (contains && !description.toLowerCase().includes(contains.toLowerCase())) return false;
+  if (pattern && !new RegExp(pattern, 'i').test(description)) return false;
+  if (minAmount !== null && !(transaction.amount >= minAmount)) return false;
+  if (maxAmount !== null && !(transaction.amount <= maxAmount)) return false;
+  return true;
+}
+
+// Runs the enabled rules, in position order, over a transaction. A category is only set when
+// the user has a category of that name for the transaction's type and the transaction is not
+// split, and an account only when it still exists. Fields listed in `kept` are left as they are.
+export function applyRules(
+  transaction: any,
+  rules: CategorizationRule[],
+  context: RuleContext,
+  kept: string[] = [],
+): { transaction: any; applied: CategorizationRule[] } {
+  const applied: CategorizationRule[] = [];
+  const updated = { ...transaction, tags: [...(transaction.tags || [])] };
+  const set = new Set<string>(kept);
+
+  for (const rule of [...rules].sort((a, b) => a.position - b.position)) {
+    if (!rule.enabled || !matchesRule(rule, transaction)) continue;
+    applied.push(rule);
+
+    const { category, tags, description, accountId } = rule.actions;
+    if (category && !set.has('category') && !(transaction.splits?.length > 0)) {
+      const match = context.categories.find(cat => cat.kind === transaction.type && sameCategoryName(cat.name, category));
+      if (match) {
+        updated.category = match.name;
+        set.add('category');
+      }
+    }
+    if (description && !set.has('description')) {
+      updated.description = description;
+      set.add('description');
+    }
+    if (accountId && !set.has('accountId') && context.accountIds.has(accountId)) {
+      updated.accountId = accountId;
+      set.add('accountId');
+    }
+    for (const tag of tags) {
+      if (!updated.tags.includes(tag)) updated.tags.push(tag);
+    }
+  }
+
+  return { transaction: applied.length > 0 ? updated : transaction, applied };
+}
@@ -0,0 +1,157 @@
+// Spreadsheet export of transactions as CSV or XLSX. Cells are typed, so the XLSX writer stores
+// real numbers and dates that the spreadsheet formats for the reader's locale, while the CSV
+// writer formats numbers for the user's locale itself.
+
+import * as XLSX from 'npm:xlsx@0.18.5';
+import { RateTable, toBaseAmount } from '../_shared/currency.tsx';
+import { ExportColumn, TRANSACTION_EXPORT_COLUMNS } from '../_shared/transaction_export.tsx';
+
+type Cell =
+  | { type: 'text'; value: string }
+  | { type: 'money'; value: number }
+  | { type: 'number'; value: number }
+  | { type: 'date'; value: string }
+  | null;
+
+export interface SpreadsheetContext {
+  table: RateTable;
+  accountNames: Map<string, string>;
+  payeeNames: Map<string, string>;
+  locale: string;
+}
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: Cell[][];
+}
+
+// Fields with a column of their own, or which are never exported
+const COLUMN_FIELDS = new Set([
+  'date', 'description', 'type', 'category', 'amount', 'currency', 'accountId', 'counterpartAccountId', 'payeeId',
+  'transferDirection', 'tags', 'splits', 'recurringId', 'id', 'createdAt', 'userId', 'runningBalance',
+]);
+
+const text = (value: unknown): Cell => (value === undefined || value === null || value === '' ? null : { type: 'text', value: String(value) });
+
+function extraFields(transactions: any[]): string[] {
+  const fields = new Set<string>();
+  for (const transaction of transactions) {
+    for (const key of Object.keys(transaction)) {
+      if (!COLUMN_FIELDS.has(key)) fields.add(key);
+    }
+  }
+  return [...fields].sort();
+}
+
+function extraCell(value: unknown): Cell {
+  if (typeof value === 'number' && Number.isFinite(value)) return { type: 'number', value };
+  if (value !== null && typeof value === 'object') return text(JSON.stringify(value));
+  return text(value);
+}
+
+function columnCell(transaction: any, column: Exclude<ExportColumn, 'extras'>, context: SpreadsheetContext, formatAmount: (amount: number) => string): Cell {
+  switch (column) {
+    case 'date':
+      return transaction.date ? { type: 'date', value: transaction.date } : null;
+    case 'amount':
+      return typeof transaction.amount === 'number' ? { type: 'money', value: transaction.amount } : null;
+    case 'currency':
+      return text(transaction.currency || context.table.baseCurrency);
+    case 'baseAmount':
+      return { type: 'money', value: toBaseAmount(transaction.amount, transaction.currency, context.table) };
+    case 'account':
+      return text(transaction.accountId && (context.accountNames.get(transaction.accountId) ?? transaction.accountId));
+    case 'counterpartAccount':
+      return text(transaction.counterpartAccountId && (context.accountNames.get(transaction.counterpartAccountId) ?? transaction.counterpartAccountId));
+    case 'payee':
+      return text(transaction.payeeId && (context.payeeNames.get(transaction.payeeId) ?? transaction.payeeId));
+    case 'tags':
+      return text((transaction.tags || []).join(', '));
+    case 'splits':
+      return text((transaction.splits || []).map((split: any) =>
+        `${split.category} ${formatAmount(split.amount)}${split.memo ? ` (${split.memo})` : ''}`
+      ).join('; '));
+    default:
+      return text(transaction[column]);
+  }
+}
+
+// Lays out the chosen columns for the transactions. The extras column expands into one column
+// per additional field found on any of the transactions.
+export function buildSpreadsheet(transactions: any[], columns: ExportColumn[], context: SpreadsheetContext): Spreadsheet {
+  const extras = columns.includes('extras') ? extraFields(transactions) : [];
+  const formatAmount = moneyFormatter(context.locale);
+
+  const headers = columns.flatMap(column => column === 'extras'
+    ? extras
+    : [TRANSACTION_EXPORT_COLUMNS.find(c => c.key === column)!.label]
+  );
+
+  const rows = transactions.map(transaction => columns.flatMap(column => column === 'extras'
+    ? extras.map(field => extraCell(transaction[field]))
+    : [columnCell(transaction, column, context, formatAmount)]
+  ));
+
+  return { headers, rows };
+}
+
+// Locale number formatting without grouping separators, so spreadsheets read the values as
+// numbers. Some locales use a typographic minus, which spreadsheets do not accept.
+function numberFormatter(locale: string, options: Intl.NumberFormatOptions) {
+  const format = new Intl.NumberFormat(locale || undefined, { useGrouping: false, ...options });
+  return (value: number) => format.format(value).replace('\u2212', '-');
+}
+
+function moneyFormatter(locale: string) {
+  return numberFormatter(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function csvCell(cell: Cell, delimiter: string, formatMoney: (value: number) => string, formatNumber: (value: number) => string): string {
+  if (cell === null) return '';
+  if (cell.type === 'money') return formatMoney(cell.value);
+  if (cell.type === 'number') return formatNumber(cell.value);
+
+  let value = cell.value;
+  // Keep spreadsheets from evaluating imported descriptions as formulas
+  if (cell.type === 'text' && /^[=+\-@]/.test(value)) value = `'${value}`;
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Writes a CSV file. Locales with a decimal comma get semicolon-separated columns, as their
+// spreadsheets expect; a byte order mark makes Excel read the file as UTF-8.
+export function buildCsv(sheet: Spreadsheet, locale: string): string {
+  const decimal = new Intl.NumberFormat(locale || undefined).formatToParts(1.5).find(part => part.type === 'decimal')?.value;
+  const delimiter = decimal === ',' ? ';' : ',';
+  const formatMoney = moneyFormatter(locale);
+  const formatNumber = numberFormatter(locale, { maximumFractionDigits: 10 });
+
+  const lines = [
+    sheet.headers.map(header => csvCell(text(header), delimiter, formatMoney, formatNumber)).join(delimiter),
+    ...sheet.rows.map(row => row.map(cell => csvCell(cell, delimiter, formatMoney, formatNumber)).join(delimiter)),
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+// Writes an XLSX workbook with a single Transactions sheet
+export function buildXlsx(sheet: Spreadsheet): Uint8Array {
+  const values = sheet.rows.map(row => row.map(cell => {
+    if (cell === null) return null;
+    if (cell.type === 'date') {
+      const [year, month, day] = cell.value.split('-').map(Number);
+      return new Date(Date.UTC(year, month - 1, day));
+    }
+    return cell.value;
+  }));
+
+  const worksheet = XLSX.utils.aoa_to_sheet([sheet.headers, ...values], { cellDates: true, dateNF: 'yyyy-mm-dd' });
+  sheet.rows.forEach((row, rowIndex) => row.forEach((cell, columnIndex) => {
+    if (cell?.type === 'money') {
+      worksheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex })].z = '#,##0.00';
+    }
+  }));
+  worksheet['!cols'] = sheet.headers.map(header => ({ wch: Math.max(12, header.length + 2) }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Transactions');
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+}
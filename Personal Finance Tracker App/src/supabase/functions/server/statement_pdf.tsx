@@ -0,0 +1,332 @@
+// PDF rendering of the statement report. Uses the standard Helvetica fonts, which only cover
+// the WinAnsi character set, so text is reduced to characters the fonts can draw.
+
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1';
+import { CategorySlice, PayeeTotal, TransactionTotals } from '../_shared/aggregations.tsx';
+import { Formatter } from '../_shared/format.tsx';
+
+export interface BudgetComparison {
+  id: string;
+  category: string;
+  period: string;
+  budgeted: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface StatementTransaction {
+  id: string;
+  date: string;
+  description: string;
+  category: string;
+  type: 'income' | 'expense';
+  amount: number;
+  originalAmount: number;
+  currency: string | null;
+}
+
+export interface StatementPayee extends PayeeTotal {
+  name: string;
+}
+
+// Report for an inclusive date range. Totals are in the base currency; each of the largest
+// transactions also keeps the amount and currency it was recorded in.
+export interface StatementReport {
+  from: string;
+  to: string;
+  baseCurrency: string;
+  generatedAt: string;
+  totals: TransactionTotals;
+  expenseCategories: CategorySlice[];
+  incomeCategories: CategorySlice[];
+  budgets: BudgetComparison[];
+  topPayees: StatementPayee[];
+  largestTransactions: StatementTransaction[];
+}
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+interface Row {
+  cells: string[];
+  color?: RGB;
+}
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_SIZE[0] - 2 * MARGIN;
+const ROW_HEIGHT = 16;
+const TEXT_SIZE = 9;
+
+// Categories shown in the chart; the rest are only listed in the table
+const CHART_CATEGORIES = 8;
+
+const BLACK = rgb(0.1, 0.1, 0.1);
+const GRAY = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.85, 0.85, 0.85);
+const GREEN = rgb(0.02, 0.59, 0.41);
+const RED = rgb(0.86, 0.15, 0.15);
+const CHART_COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
+
+function hexColor(hex: string | undefined, fallback: string): RGB {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex || '') ?? /^#?([0-9a-f]{6})$/i.exec(fallback)!;
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+// Replaces characters the font cannot encode, such as the typographic minus and narrow spaces
+// some locales use in numbers, or scripts outside WinAnsi
+function textSanitizer(font: PDFFont) {
+  const supported = new Set(font.getCharacterSet());
+  return (value: string) => [...value.replace(/\s+/g, ' ').replace(/\u2212/g, '-')]
+    .map(char => supported.has(char.codePointAt(0)!) ? char : '?')
+    .join('');
+}
+
+export async function buildStatementPdf(report: StatementReport, format: Formatter): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const clean = textSanitizer(regular);
+
+  const period = `${format.formatDate(report.from)} - ${format.formatDate(report.to)}`;
+  doc.setTitle(clean(`Statement ${period}`));
+  doc.setCreationDate(new Date(report.generatedAt));
+
+  let page: PDFPage = doc.addPage(PAGE_SIZE);
+  let y = PAGE_SIZE[1] - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage(PAGE_SIZE);
+      y = PAGE_SIZE[1] - MARGIN;
+    }
+  };
+
+  // Cuts text down to the width available, ending it with an ellipsis
+  const fit = (text: string, font: PDFFont, size: number, width: number) => {
+    let value = clean(text);
+    if (font.widthOfTextAtSize(value, size) <= width) return value;
+    while (value.length > 0 && font.widthOfTextAtSize(`${value}\u2026`, size) > width) {
+      value = value.slice(0, -1);
+    }
+    return `${value}\u2026`;
+  };
+
+  const drawText = (text: string, x: number, options: { font?: PDFFont; size?: number; color?: RGB; width?: number; align?: 'left' | 'right' } = {}) => {
+    const font = options.font ?? regular;
+    const size = options.size ?? TEXT_SIZE;
+    const value = options.width ? fit(text, font, size, options.width) : clean(text);
+    const offset = options.align === 'right' && options.width ? options.width - font.widthOfTextAtSize(value, size) : 0;
+    page.drawText(value, { x: x + offset, y, size, font, color: options.color ?? BLACK });
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(48);
+    y -= 24;
+    drawText(text, MARGIN, { font: bold, size: 13 });
+    y -= 10;
+  };
+
+  const note = (text: string) => {
+    ensureSpace(ROW_HEIGHT);
+    y -= ROW_HEIGHT;
+    drawText(text, MARGIN, { color: GRAY });
+  };
+
+  const drawRow = (columns: Column[], cells: string[], font: PDFFont, color: RGB) => {
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      drawText(cells[index], x, { font, color, width: column.width - 6, align: column.align });
+      x += column.width;
+    });
+    page.drawLine({ start: { x: MARGIN, y: y - 4 }, end: { x: MARGIN + CONTENT_WIDTH, y: y - 4 }, thickness: 0.5, color: RULE });
+  };
+
+  // Draws a table, repeating the header row on each new page. Tables without headers have
+  // no header row.
+  const table = (columns: Column[], rows: Row[]) => {
+    const header = () => {
+      ensureSpace(2 * ROW_HEIGHT);
+      if (columns.some(column => column.header)) {
+        y -= ROW_HEIGHT;
+        drawRow(columns, columns.map(column => column.header), bold, GRAY);
+      }
+    };
+
+    header();
+    for (const row of rows) {
+      if (y - ROW_HEIGHT < MARGIN) header();
+      y -= ROW_HEIGHT;
+      drawRow(columns, row.cells, regular, row.color ?? BLACK);
+    }
+  };
+
+  // Horizontal bar per category, scaled to the largest one
+  const barChart = (slices: CategorySlice[]) => {
+    const labelWidth = 130;
+    const valueWidth = 90;
+    const barWidth = CONTENT_WIDTH - labelWidth - valueWidth - 10;
+    const max = Math.max(...slices.map(slice => slice.value));
+
+    y -= 6;
+    slices.forEach((slice, index) => {
+      ensureSpace(ROW_HEIGHT);
+      y -= ROW_HEIGHT;
+      drawText(slice.name, MARGIN, { width: labelWidth - 6 });
+      page.drawRectangle({
+        x: MARGIN + labelWidth,
+        y: y - 2,
+        width: Math.max(1, barWidth * slice.value / max),
+        height: 10,
+        color: hexColor(slice.color, CHART_COLORS[index % CHART_COLORS.length]),
+      });
+      drawText(format.formatMoney(slice.value), MARGIN + labelWidth + barWidth + 10, { width: valueWidth, align: 'right' });
+    });
+  };
+
+  const categoryTable = (slices: CategorySlice[], total: number) => {
+    table(
+      [
+        { header: 'Category', width: 275 },
+        { header: 'Amount', width: 120, align: 'right' },
+        { header: 'Share', width: 100, align: 'right' },
+      ],
+      slices.map(slice => ({
+        cells: [slice.name, format.formatMoney(slice.value), format.formatPercent(total > 0 ? slice.value / total * 100 : 0)],
+      })),
+    );
+  };
+
+  // Title
+  y -= 20;
+  drawText('Statement', MARGIN, { font: bold, size: 20 });
+  y -= 18;
+  drawText(period, MARGIN, { size: 11, color: GRAY });
+  y -= 14;
+  drawText(`Amounts in ${format.displayCurrency}. Generated ${format.formatDateTime(report.generatedAt)}.`, MARGIN, { color: GRAY });
+
+  // Summary
+  heading('Summary');
+  const { totals } = report;
+  table(
+    [
+      { header: '', width: 200 },
+      { header: '', width: 150, align: 'right' },
+    ],
+    [
+      { cells: ['Income', format.formatMoney(totals.totalIncome)], color: GREEN },
+      { cells: ['Expenses', format.formatMoney(totals.totalExpenses)], color: RED },
+      { cells: ['Net change', format.formatMoney(totals.balance)], color: totals.balance < 0 ? RED : GREEN },
+      { cells: ['Transactions', String(totals.transactionCount)] },
+    ],
+  );
+
+  // Category breakdown
+  heading('Spending by Category');
+  if (report.expenseCategories.length === 0) {
+    note('No expenses in this period.');
+  } else {
+    barChart(report.expenseCategories.slice(0, CHART_CATEGORIES));
+    categoryTable(report.expenseCategories, totals.totalExpenses);
+  }
+
+  heading('Income by Category');
+  if (report.incomeCategories.length === 0) {
+    note('No income in this period.');
+  } else {
+    categoryTable(report.incomeCategories, totals.totalIncome);
+  }
+
+  // Budget vs actual
+  heading('Budgets');
+  if (report.budgets.length === 0) {
+    note('No budgets set up.');
+  } else {
+    table(
+      [
+        { header: 'Budget', width: 155 },
+        { header: 'Period', width: 70 },
+        { header: 'Budgeted', width: 90, align: 'right' },
+        { header: 'Spent', width: 90, align: 'right' },
+        { header: 'Remaining', width: 90, align: 'right' },
+      ],
+      report.budgets.map(budget => ({
+        cells: [
+          budget.category,
+          budget.period === 'weekly' ? 'Weekly' : 'Monthly',
+          format.formatMoney(budget.budgeted),
+          format.formatMoney(budget.spent),
+          format.formatMoney(budget.remaining),
+        ],
+        color: budget.remaining < 0 ? RED : undefined,
+      })),
+    );
+    note('Budgeted amounts are prorated by the days each budget period shares with the statement.');
+  }
+
+  // Top payees
+  heading('Top Payees');
+  if (report.topPayees.length === 0) {
+    note('No spending with known payees in this period.');
+  } else {
+    table(
+      [
+        { header: 'Payee', width: 225 },
+        { header: 'Transactions', width: 90, align: 'right' },
+        { header: 'Spent', width: 110, align: 'right' },
+        { header: 'Share', width: 70, align: 'right' },
+      ],
+      report.topPayees.map(payee => ({
+        cells: [
+          payee.name,
+          String(payee.count),
+          format.formatMoney(payee.total),
+          format.formatPercent(totals.totalExpenses > 0 ? payee.total / totals.totalExpenses * 100 : 0),
+        ],
+      })),
+    );
+  }
+
+  // Largest transactions
+  heading('Largest Transactions');
+  if (report.largestTransactions.length === 0) {
+    note('No transactions in this period.');
+  } else {
+    table(
+      [
+        { header: 'Date', width: 80 },
+        { header: 'Description', width: 190 },
+        { header: 'Category', width: 115 },
+        { header: 'Amount', width: 110, align: 'right' },
+      ],
+      report.largestTransactions.map(transaction => ({
+        cells: [
+          format.formatDate(transaction.date),
+          transaction.description || transaction.category,
+          transaction.category,
+          `${transaction.type === 'expense' ? '-' : '+'}${format.formatMoney(transaction.originalAmount, transaction.currency || report.baseCurrency)}`,
+        ],
+        color: transaction.type === 'expense' ? RED : GREEN,
+      })),
+    );
+  }
+
+  // Page numbers
+  const pages = doc.getPages();
+  pages.forEach((current, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    current.drawText(label, {
+      x: PAGE_SIZE[0] - MARGIN - regular.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: GRAY,
+    });
+  });
+
+  return await doc.save();
+}
@@ -0,0 +1,188 @@
+// Query parsing, filtering, sorting and cursor pagination for GET /transactions.
+
+import { transactionCategories } from '../_shared/splits.tsx';
+
+const SORT_FIELDS = ['date', 'amount', 'description', 'category', 'createdAt'] as const;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+type SortField = typeof SORT_FIELDS[number];
+
+export interface TransactionQuery {
+  from?: string;
+  to?: string;
+  type?: string;
+  category?: string;
+  tag?: string;
+  accountId?: string;
+  payeeId?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  search?: string;
+  sort: SortField;
+  order: 'asc' | 'desc';
+  limit?: number;
+  cursor?: { value: string | number; id: string };
+}
+
+// Parses query-string parameters into a TransactionQuery, or returns an error message
+export function parseTransactionQuery(params: Record<string, string | undefined>): { query?: TransactionQuery; error?: string } {
+  const query: TransactionQuery = { sort: 'date', order: 'desc' };
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params[key];
+    if (value) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return { error: `Invalid ${key} date, expected YYYY-MM-DD` };
+      }
+      query[key] = value;
+    }
+  }
+
+  if (params.type) {
+    if (params.type !== 'income' && params.type !== 'expense' && params.type !== 'transfer') {
+      return { error: 'Invalid type, expected income, expense or transfer' };
+    }
+    query.type = params.type;
+  }
+
+  if (params.category) {
+    query.category = params.category;
+  }
+
+  if (params.tag) {
+    query.tag = params.tag.trim().toLowerCase();
+  }
+
+  if (params.accountId) {
+    query.accountId = params.accountId;
+  }
+
+  if (params.payeeId) {
+    query.payeeId = params.payeeId;
+  }
+
+  for (const key of ['minAmount', 'maxAmount'] as const) {
+    const value = params[key];
+    if (value) {
+      const amount = Number(value);
+      if (!Number.isFinite(amount)) {
+        return { error: `Invalid ${key}, expected a number` };
+      }
+      query[key] = amount;
+    }
+  }
+
+  if (params.search?.trim()) {
+    query.search = params.search.trim().toLowerCase();
+  }
+
+  if (params.sort) {
+    if (!SORT_FIELDS.includes(params.sort as SortField)) {
+      return { error: `Invalid sort field, expected one of ${SORT_FIELDS.join(', ')}` };
+    }
+    query.sort = params.sort as SortField;
+  }
+
+  if (params.order) {
+    if (params.order !== 'asc' && params.order !== 'desc') {
+      return { error: 'Invalid order, expected asc or desc' };
+    }
+    query.order = params.order;
+  }
+
+  if (params.limit || params.cursor) {
+    const limit = params.limit ? parseInt(params.limit, 10) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { error: 'Invalid limit, expected a positive integer' };
+    }
+    query.limit = Math.min(limit, MAX_LIMIT);
+  }
+
+  if (params.cursor) {
+    const cursor = decodeCursor(params.cursor);
+    if (!cursor) {
+      return { error: 'Invalid cursor' };
+    }
+    query.cursor = cursor;
+  }
+
+  return { query };
+}
+
+function matchesQuery(transaction: any, query: TransactionQuery): boolean {
+  if (query.from && transaction.date < query.from) return false;
+  if (query.to && transaction.date > query.to) return false;
+  if (query.type && transaction.type !== query.type) return false;
+  if (query.category && !transactionCategories(transaction).includes(query.category)) return false;
+  if (query.tag && !(transaction.tags || []).includes(query.tag)) return false;
+  if (query.accountId && transaction.accountId !== query.accountId) return false;
+  if (query.payeeId && transaction.payeeId !== query.payeeId) return false;
+  if (query.minAmount !== undefined && transaction.amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && transaction.amount > query.maxAmount) return false;
+
+  if (query.search) {
+    const splitText = (transaction.splits || []).map((s: any) => `${s.category} ${s.memo || ''}`).join(' ');
+    const haystack = `${transaction.description || ''} ${transaction.category || ''} ${splitText} ${(transaction.tags || []).join(' ')}`.toLowerCase();
+    if (!haystack.includes(query.search)) return false;
+  }
+
+  return true;
+}
+
+function sortValue(transaction: any, field: SortField): string | number {
+  const value = transaction[field];
+  if (field === 'amount') return typeof value === 'number' ? value : 0;
+  return typeof value === 'string' ? (field === 'date' || field === 'createdAt' ? value : value.toLowerCase()) : '';
+}
+
+// Orders by the sort field, falling back to the id so that the order is total and cursors are stable
+function compareBy(query: TransactionQuery) {
+  const direction = query.order === 'asc' ? 1 : -1;
+  return (a: { value: string | number; id: string }, b: { value: string | number; id: string }) => {
+    if (a.value < b.value) return -direction;
+    if (a.value > b.value) return direction;
+    if (a.id < b.id) return -direction;
+    if (a.id > b.id) return direction;
+    return 0;
+  };
+}
+
+function encodeCursor(value: string | number, id: string): string {
+  return btoa(JSON.stringify({ v: value, id }));
+}
+
+function decodeCursor(cursor: string): { value: string | number; id: string } | null {
+  try {
+    const { v, id } = JSON.parse(atob(cursor));
+    if ((typeof v !== 'string' && typeof v !== 'number') || typeof id !== 'string') {
+      return null;
+    }
+    return { value: v, id };
+  } catch {
+    return null;
+  }
+}
+
+// Applies filters, sorting and pagination to a user's transactions
+export function queryTransactions(transactions: any[], query: TransactionQuery) {
+  const compare = compareBy(query);
+  const keyed = transactions
+    .filter(t => matchesQuery(t, query))
+    .map(t => ({ value: sortValue(t, query.sort), id: t.id as string, transaction: t }))
+    .sort(compare);
+
+  const total = keyed.length;
+  const start = query.cursor ? keyed.findIndex(k => compare(k, query.cursor!) > 0) : 0;
+  const remaining = start === -1 ? [] : keyed.slice(start);
+
+  if (query.limit === undefined) {
+    return { transactions: remaining.map(k => k.transaction), total, nextCursor: null };
+  }
+
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const nextCursor = remaining.length > query.limit && last ? encodeCursor(last.value, last.id) : null;
+
+  return { transactions: page.map(k => k.transaction), total, nextCursor };
+}